@@ -36,6 +36,17 @@ async function main() {
 		plugins: [esbuildProblemMatcherPlugin],
 	});
 
+	const workerCtx = await esbuild.context({
+		entryPoints: ['src/traceWorker.ts'],
+		bundle: true,
+		format: 'cjs',
+		minify: production,
+		sourcemap: !production,
+		platform: 'node',
+		outfile: 'dist/traceWorker.js',
+		plugins: [esbuildProblemMatcherPlugin],
+	});
+
 	const webviewCtx = await esbuild.context({
 		entryPoints: ['src/webviews/file_view.ts'],
 		bundle: true,
@@ -56,21 +67,50 @@ async function main() {
 		outfile: 'dist/folder_view.js',
 	});
 
+	const compareViewCtx = await esbuild.context({
+		entryPoints: ['src/webviews/compare_view.ts'],
+		bundle: true,
+		format: 'iife',
+		minify: production,
+		sourcemap: !production,
+		platform: 'browser',
+		outfile: 'dist/compare_view.js',
+	});
+
+	const historyViewCtx = await esbuild.context({
+		entryPoints: ['src/webviews/history_view.ts'],
+		bundle: true,
+		format: 'iife',
+		minify: production,
+		sourcemap: !production,
+		platform: 'browser',
+		outfile: 'dist/history_view.js',
+	});
+
 	if (watch) {
 		await Promise.all([
 			extensionCtx.watch(),
+			workerCtx.watch(),
 			webviewCtx.watch(),
-			webviewCtx2.watch()
+			webviewCtx2.watch(),
+			compareViewCtx.watch(),
+			historyViewCtx.watch()
 		]);
 	} else {
 		await Promise.all([
 			extensionCtx.rebuild(),
+			workerCtx.rebuild(),
 			webviewCtx.rebuild(),
-			webviewCtx2.rebuild()
+			webviewCtx2.rebuild(),
+			compareViewCtx.rebuild(),
+			historyViewCtx.rebuild()
 		]);
 		await extensionCtx.dispose();
+		await workerCtx.dispose();
 		await webviewCtx.dispose();
 		await webviewCtx2.dispose();
+		await compareViewCtx.dispose();
+		await historyViewCtx.dispose();
 	}
 }
 
@@ -0,0 +1,78 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { TraceResult } from './analyzer';
+import { PackedIncludeTrees, packIncludeTrees, unpackIncludeTrees } from './traceParser';
+
+// Folder analyses saved to disk, to be compared or reopened later
+
+// 2: metadata
+// 3: include trees packed apart from the result, each header path written once
+export const ANALYSIS_FILE_VERSION = 3;
+
+// Where the analysis comes from, to tell archived or shared analyses apart
+export interface AnalysisMetadata {
+	folderPath?: string;
+	databasePath?: string;
+	// ISO 8601, when the traces were analyzed
+	createdAt?: string;
+	gitCommit?: string;
+	compilerVersion?: string;
+}
+
+export interface AnalysisFile {
+	version: number;
+	metadata: AnalysisMetadata;
+	result: TraceResult;
+	includeTrees?: PackedIncludeTrees;
+}
+
+export function getGitCommit(cwd: string): Promise<string | undefined> {
+	return new Promise(resolve => {
+		execFile('git', ['rev-parse', 'HEAD'], { cwd, timeout: 5000 }, (err, stdout) => {
+			resolve(err ? undefined : stdout.trim() || undefined);
+		});
+	});
+}
+
+export async function writeAnalysis(filePath: string, result: TraceResult, metadata: AnalysisMetadata): Promise<void> {
+	const file: AnalysisFile = {
+		version: ANALYSIS_FILE_VERSION,
+		metadata,
+		result: { ...result, includeTrees: [] },
+		includeTrees: packIncludeTrees(result.includeTrees)
+	};
+	await fs.promises.writeFile(filePath, JSON.stringify(file));
+}
+
+// Autosaved analyses kept in the extension storage, for the folder panels to survive a window reload
+const AUTOSAVE_COUNT = 10;
+
+export async function autosaveAnalysis(dir: string, result: TraceResult, metadata: AnalysisMetadata): Promise<string> {
+	await fs.promises.mkdir(dir, { recursive: true });
+
+	const filePath = path.join(dir, `analysis-${Date.now()}.json`);
+	await writeAnalysis(filePath, result, metadata);
+
+	// The names sort by date, the oldest ones go
+	const autosaved = (await fs.promises.readdir(dir)).filter(f => /^analysis-\d+\.json$/.test(f)).sort();
+	for (const name of autosaved.slice(0, Math.max(0, autosaved.length - AUTOSAVE_COUNT))) {
+		await fs.promises.rm(path.join(dir, name), { force: true });
+	}
+
+	return filePath;
+}
+
+export async function readAnalysis(filePath: string): Promise<AnalysisFile> {
+	const file: Partial<AnalysisFile> = JSON.parse(await fs.promises.readFile(filePath, 'utf8'));
+
+	if (typeof file.version !== 'number' || !Array.isArray(file.result?.files)) {
+		throw new Error(`${filePath} is not a saved Clang Time Tracer analysis`);
+	}
+	if (file.version > ANALYSIS_FILE_VERSION) {
+		throw new Error(`${filePath} was saved by a newer version of Clang Time Tracer`);
+	}
+
+	const result = file.includeTrees ? { ...file.result!, includeTrees: unpackIncludeTrees(file.includeTrees) } : file.result!;
+	return { version: file.version, metadata: file.metadata ?? {}, result };
+}
@@ -1,42 +1,35 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
+import { Worker } from 'worker_threads';
+import { BuildFailure, TracedFile } from './builder';
+import { AggregatedTraces, TraceAggregator, TraceSummary, parseClangTrace } from './traceParser';
 
-export interface FileStats {
-	tracePath: string;
-	sourcePath: string;
-	totalTime: number;
-	sourceTime: number;
-	templateTime: number;
-	optimTime: number;
-}
+export type { FileStats, IncludeStats, CumulatedIncludeStats } from './traceParser';
 
-export interface IncludeStats {
-	path: string;
-	maxTime: number;
-	count: number;
-	includedBy: string[];
+export interface TraceResult extends AggregatedTraces {
+	failures: BuildFailure[];
 }
 
-export interface CumulatedIncludeStats {
-	path: string;
-	totalTime: number;
-	count: number;
-	includedBy: string[];
-}
+type TraceInput = TracedFile;
+type ParsedCallback = (input: TraceInput, summary?: TraceSummary, error?: string) => void;
 
-export interface TraceResult {
-	files: FileStats[];
-	includes: IncludeStats[];
-	cumulatedIncludes: CumulatedIncludeStats[];
+export async function isClangTraceFile(tracePath: string): Promise<boolean> {
+	try {
+		const json = JSON.parse(await fs.promises.readFile(tracePath, 'utf-8'));
+		const events = json?.traceEvents;
+		if (!Array.isArray(events)) { return false; }
+
+		return events.some((e: any) => e?.name === "Total ExecuteCompiler" || e?.name === "ExecuteCompiler" || e?.cat === "Source");
+	} catch {
+		return false;
+	}
 }
 
-export async function collectAndMergeTrace(tracePaths: { tracePath: string, sourcePath: string }[]): Promise<TraceResult> {
-	const finalResult: TraceResult = {
-		files: [],
-		includes: [],
-		cumulatedIncludes: []
-	};
+export async function collectAndMergeTrace(tracePaths: TraceInput[], failures: BuildFailure[] = []): Promise<TraceResult> {
+	const aggregator = new TraceAggregator();
+	const unreadable: string[] = [];
 
 	await vscode.window.withProgress({
 		location: vscode.ProgressLocation.Notification,
@@ -44,119 +37,110 @@ export async function collectAndMergeTrace(tracePaths: { tracePath: string, sour
 		cancellable: true
 	}, async (progress, token) => {
 
-		for (let i = 0; i < tracePaths.length; i++) {
-			if (token.isCancellationRequested) { break; }
-
-			const { tracePath, sourcePath } = tracePaths[i];
-
-			if (processClangTrace(tracePath, sourcePath, finalResult) === false) {
-				break;
+		await parseTraces(tracePaths, token, (input, summary, error) => {
+			if (summary) {
+				summary.file.target = input.target;
+				aggregator.add(summary);
+			} else {
+				unreadable.push(`${input.tracePath}: ${error}`);
 			}
 
 			progress.report({
 				increment: (1 / tracePaths.length) * 100,
-				message: `Analyzing ${path.basename(tracePath)}`
+				message: `Analyzing ${path.basename(input.tracePath)}`
 			});
-		}
+		});
 	});
 
-	finalResult.files.sort((a, b) => b.totalTime - a.totalTime);
-	finalResult.includes.sort((a, b) => b.maxTime - a.maxTime);
-	finalResult.includes.forEach(i => i.includedBy.sort((a, b) => a.localeCompare(b)));
-	finalResult.cumulatedIncludes.sort((a, b) => b.totalTime - a.totalTime);
-	finalResult.cumulatedIncludes.forEach(i => i.includedBy.sort((a, b) => a.localeCompare(b)));
+	if (unreadable.length > 0) {
+		vscode.window.showWarningMessage(`${unreadable.length} trace(s) could not be read and were skipped: ${unreadable[0]}`);
+	}
 
-	return finalResult;
+	return { ...aggregator.result(), failures: failures };
 }
 
-function processClangTrace(tracePath: string, sourcePath: string, traceResult: TraceResult): boolean {
-	const rawData = fs.readFileSync(tracePath, 'utf-8');
-	const json = JSON.parse(rawData);
-	const events = json.traceEvents;
-
-	let fileStat: FileStats = {
-		tracePath: tracePath,
-		sourcePath: sourcePath,
-		totalTime: 0,
-		sourceTime: 0,
-		templateTime: 0,
-		optimTime: 0
-	};
-
-	const sourceEventStack: any[] = [];
-	let firstSourceEventTs: number = Infinity;
-	let lastSourceEventTs: number = 0;
-
-	for (const event of events) {
-		const name = event.name;
-		const dur = event.dur || 0;
-
-		if (event.cat === "Source" && event.ph === "b") {
-			sourceEventStack.push(event);
-			firstSourceEventTs = Math.min(firstSourceEventTs, event.ts);
-			continue;
-		}
+const MAX_WORKER_RESPAWNS = 4;
 
-		if (event.cat === "Source" && event.ph === "e") {
-			const startEvent = sourceEventStack.pop();
-			if (!startEvent) { continue; }
+// Traces are parsed in a pool of worker threads, or on the extension host when the worker is not available
+async function parseTraces(tracePaths: TraceInput[], token: vscode.CancellationToken, onParsed: ParsedCallback): Promise<void> {
+	const workerPath = path.join(__dirname, 'traceWorker.js');
+	const poolSize = Math.min(Math.max(os.cpus().length - 1, 1), tracePaths.length);
 
-			lastSourceEventTs = Math.max(lastSourceEventTs, event.ts);
-
-			const dur = event.ts - startEvent.ts;
-			const detail = startEvent.args?.detail;
+	if (poolSize <= 1 || !fs.existsSync(workerPath)) {
+		for (const input of tracePaths) {
+			if (token.isCancellationRequested) { break; }
 
-			let existingInc = traceResult.includes.find(i => i.path === detail);
-			if (existingInc) {
-				existingInc.maxTime = Math.max(existingInc.maxTime, dur);
-				existingInc.count += 1;
-				if (!existingInc.includedBy.includes(sourcePath)) { existingInc.includedBy.push(sourcePath); }
-			} else {
-				traceResult.includes.push({
-					path: detail,
-					maxTime: dur,
-					count: 1,
-					includedBy: [sourcePath]
-				});
+			try {
+				onParsed(input, parseClangTrace(input.tracePath, input.sourcePath));
+			} catch (err) {
+				onParsed(input, undefined, `${err}`);
 			}
 
-			let existingCumul = traceResult.cumulatedIncludes.find(c => c.path === detail);
-			if (existingCumul) {
-				existingCumul.totalTime += dur;
-				existingCumul.count += 1;
-				if (!existingCumul.includedBy.includes(sourcePath)) { existingCumul.includedBy.push(sourcePath); }
+			// Let the cancellation and the progress notification through
+			await new Promise(resolve => setImmediate(resolve));
+		}
+		return;
+	}
+
+	const queue = [...tracePaths];
+	let respawns = 0;
+
+	const runWorker = (): Promise<void> => new Promise<void>((resolve) => {
+		const worker = new Worker(workerPath);
+		let current: TraceInput | undefined;
+		let stopped = false;
+
+		// A dead worker is replaced, up to a limit: past it, the traces left are reported as unreadable
+		const stop = (replace: boolean) => {
+			if (stopped) { return; }
+			stopped = true;
+			cancellation.dispose();
+			worker.terminate();
+
+			if (!replace || token.isCancellationRequested || queue.length === 0) {
+				resolve();
+			} else if (respawns < MAX_WORKER_RESPAWNS) {
+				respawns++;
+				resolve(runWorker());
 			} else {
-				traceResult.cumulatedIncludes.push({
-					path: detail,
-					totalTime: dur,
-					count: 1,
-					includedBy: [sourcePath]
-				});
+				for (const input of queue.splice(0)) {
+					onParsed(input, undefined, 'the trace workers kept stopping');
+				}
+				resolve();
 			}
-			continue;
-		}
+		};
+
+		const fail = (reason: string) => {
+			if (current) { onParsed(current, undefined, reason); }
+			current = undefined;
+			stop(true);
+		};
+
+		const next = () => {
+			current = queue.shift();
+			if (!current || token.isCancellationRequested) {
+				stop(false);
+				return;
+			}
+			worker.postMessage(current);
+		};
 
-		if (name === "Total ExecuteCompiler") {
-			fileStat.totalTime = dur;
-		}
-		/* Bugged ?
-		else if (name === "Total Source") {
-			fileStat.sourceTime = dur;
-		}
-		*/
-		else if (name === "Total InstantiateFunction") {
-			fileStat.templateTime = dur;
-		}
-		else if (name === "Total OptModule") {
-			fileStat.optimTime = dur;
-		}
-	}
+		const cancellation = token.onCancellationRequested(() => stop(false));
 
-	if (lastSourceEventTs !== 0) {
-		fileStat.sourceTime = lastSourceEventTs - firstSourceEventTs;
-	}
+		worker.on('message', (message: { summary?: TraceSummary, error?: string }) => {
+			if (current) { onParsed(current, message.summary, message.error); }
+			next();
+		});
 
-	traceResult.files.push(fileStat);
+		worker.on('error', (err) => fail(err.message));
+
+		// Out of memory on a huge trace, or killed: 'exit' without 'error'
+		worker.on('exit', (code) => {
+			if (!stopped) { fail(`the trace worker exited with code ${code}`); }
+		});
+
+		next();
+	});
 
-	return true;
+	await Promise.all(Array.from({ length: poolSize }, runWorker));
 }
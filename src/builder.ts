@@ -1,113 +1,365 @@
 import * as vscode from 'vscode';
 import * as os from 'os';
+import * as fs from 'fs';
+import * as crypto from 'crypto';
 import path from "path";
 import { spawn } from 'child_process';
 import { CompileEntry } from "./compilationDatabase";
+import { CommandQuoting, expandResponseFiles, getObjectPath, getTraceFilePath, isClangClCommand, splitCommand, splitCompileCommand, splitWindowsCommand, removeArguments, stripLaunchers } from './commandLine';
 
-function splitCommand(command: string): string[] {
-	const args: string[] = [];
-	let current = '';
-	let inDouble = false;
-	let inSingle = false;
-
-	for (let i = 0; i < command.length; i++) {
-		const ch = command[i];
-
-		if (inSingle) {
-			if (ch === "'") { inSingle = false; }
-			else { current += ch; }
-		} else if (inDouble) {
-			if (ch === '"') {
-				inDouble = false;
-			} else if (ch === '\\' && i + 1 < command.length && (command[i + 1] === '"' || command[i + 1] === '\\')) {
-				current += command[++i];
-			} else {
-				current += ch;
-			}
-		} else {
-			if (ch === ' ' || ch === '\t') {
-				if (current.length > 0) { args.push(current); current = ''; }
-			} else if (ch === '"') {
-				inDouble = true;
-			} else if (ch === "'") {
-				inSingle = true;
-			} else if (ch === '\\' && i + 1 < command.length && command[i + 1] === '"') {
-				current += command[++i];
-			} else {
-				current += ch;
-			}
-		}
-	}
-
-	if (current.length > 0) { args.push(current); }
-	return args;
-}
-
-function prepareArguments(entry: CompileEntry, extraArg: string): { exe: string, args: string[] } {
-	let args: string[] = [];
-	let exe = "";
+function getCommandParts(entry: CompileEntry): { exe: string, args: string[], isClangCl: boolean } {
+	const config = vscode.workspace.getConfiguration('clangTimeTracer');
+	const launchers = config.get<string[]>('compiler.launchers', []);
+	const compilerPath = config.get<string>('compiler.path', '');
+	const quoting = config.get<CommandQuoting>('compileCommands.quoting', 'auto');
 
+	let parts: string[] = [];
 	if (entry.arguments && entry.arguments.length > 0) {
-		const [first, ...rest] = entry.arguments;
-		exe = first ?? "";
-		args = rest;
+		parts = [...entry.arguments];
 	} else if (entry.command) {
-		const parts = splitCommand(entry.command);
-		exe = parts[0] ?? "";
-		args = parts.slice(1);
+		parts = splitCompileCommand(entry.command, quoting, launchers);
 	}
 
-	const hasTraceFlag = args.some(arg => arg.includes("-ftime-trace") || arg.includes("/clang:-ftime-trace"));
+	parts = stripLaunchers(parts, launchers);
+
+	// Same default as the clang driver: Windows quoting in cl mode or on a Windows host
+	const rspQuoting = parts.find(arg => arg.startsWith('--rsp-quoting='))?.substring(14);
+	const useWindowsQuoting = rspQuoting
+		? rspQuoting === 'windows'
+		: process.platform === 'win32' || isClangClCommand(parts[0] ?? "", parts);
+	parts = expandResponseFiles(parts, entry.directory, useWindowsQuoting ? splitWindowsCommand : splitCommand);
+
+	const exe = compilerPath || parts[0] || "";
+	const args = parts.slice(1);
+
+	return { exe, args, isClangCl: isClangClCommand(exe, args) };
+}
+
+const traceFlagPattern = /^(\/clang:)?-ftime-trace(=.*)?$/;
+
+function prepareArguments(args: string[], extraArg: string): string[] {
+	const hasTraceFlag = args.some(arg => traceFlagPattern.test(arg));
 	if (!hasTraceFlag) {
 		args.unshift(extraArg);
 	}
 
-	return { exe, args };
+	return args;
+}
+
+// CMake puts the objects of a target in CMakeFiles/<target>.dir, Meson in <target>.p
+function getTargetName(entry: CompileEntry): string | undefined {
+	const objPath = getObjectPath(getCommandParts(entry).args).replace(/\\/g, '/');
+	const match = objPath.match(/(?:^|\/)CMakeFiles\/([^/]+)\.dir\//) ?? objPath.match(/(?:^|\/)([^/]+)\.p\//);
+
+	return match?.[1];
+}
+
+const compilerVersions = new Map<string, Promise<string>>();
+
+function getVersionOutput(exe: string, cwd: string): Promise<string> {
+	let version = compilerVersions.get(exe);
+	if (!version) {
+		version = new Promise(resolve => {
+			const cp = spawn(exe, ['--version'], { cwd });
+			let stdout = '';
+
+			cp.stdout?.on('data', d => stdout += d.toString());
+			cp.on('close', () => resolve(stdout));
+			cp.on('error', () => resolve(''));
+		});
+		compilerVersions.set(exe, version);
+	}
+	return version;
+}
+
+// -ftime-trace=<path> is only understood since Clang 16
+async function getClangMajorVersion(exe: string, cwd: string): Promise<number | undefined> {
+	const match = (await getVersionOutput(exe, cwd)).match(/clang version (\d+)/);
+	return match ? parseInt(match[1], 10) : undefined;
+}
+
+export async function getCompilerMajorVersion(entry: CompileEntry): Promise<number | undefined> {
+	const { exe } = getCommandParts(entry);
+	return getClangMajorVersion(exe, entry.directory);
 }
 
-function getTraceFilePath(entry: CompileEntry, args: string[]): string {
-	let objPath = "";
+// First line of `<compiler> --version`, e.g. "clang version 17.0.6"
+export async function getCompilerVersion(entry: CompileEntry): Promise<string | undefined> {
+	const { exe } = getCommandParts(entry);
+	const firstLine = (await getVersionOutput(exe, entry.directory)).split(/\r?\n/)[0].trim();
+	return firstLine || undefined;
+}
+
+function isolateOutputs(entry: CompileEntry, args: string[], isClangCl: boolean, scratchDir: string): { args: string[], tracePath: string } {
+	const isolatedArgs: string[] = [];
 
 	for (let i = 0; i < args.length; i++) {
 		const arg = args[i];
-		if (arg.startsWith('/Fo')) {
-			objPath = arg.substring(3);
-			break;
-		} else if (arg === '-o' || arg === '/Fo') {
-			objPath = args[i + 1];
-			break;
-		} else if (arg.startsWith('-o')) {
-			objPath = arg.substring(2);
-			break;
+
+		// Object file and existing trace flags
+		if (arg === '-o' || arg === '/Fo' || arg === '-Fo') { i++; continue; }
+		if (/^(-o|\/Fo|-Fo)/.test(arg) || traceFlagPattern.test(arg)) { continue; }
+
+		// Dependency files, read by Ninja/Make (for clang-cl -MD selects the runtime library)
+		if (!isClangCl) {
+			if (arg === '-MF' || arg === '-MT' || arg === '-MQ') { i++; continue; }
+			if (/^-M{1,2}D$/.test(arg) || /^-M[FTQ]/.test(arg)) { continue; }
 		}
+
+		isolatedArgs.push(arg);
 	}
 
-	let tracePath = "";
-	if (objPath) {
-		objPath = objPath.replace(/^['"]|['"]$/g, '');
-		const parsed = path.parse(objPath);
-		tracePath = path.join(parsed.dir, parsed.name + '.json');
+	const sourcePath = getSourcePath(entry);
+	// Variants of the same file (targets, configs) must not share their outputs
+	const hash = crypto.createHash('md5').update(sourcePath).update(args.join(' ')).digest('hex').substring(0, 8);
+	const baseName = path.join(scratchDir, `${path.parse(sourcePath).name}-${hash}`);
+
+	if (isClangCl) {
+		isolatedArgs.push(`/Fo${baseName}.obj`);
 	} else {
-		const parsed = path.parse(entry.file);
-		tracePath = parsed.name + '.json';
+		isolatedArgs.push('-o', `${baseName}.o`);
+	}
+
+	return { args: isolatedArgs, tracePath: `${baseName}.json` };
+}
+
+// Options are written with the GNU driver spelling, clang-cl receives them through /clang:
+function applyTraceOptions(args: string[], isClangCl: boolean): string[] {
+	const config = vscode.workspace.getConfiguration('clangTimeTracer');
+	const granularity = config.get<number>('trace.granularity', 0);
+	const verbose = config.get<boolean>('trace.verbose', false);
+	const extraArgs = config.get<string[]>('trace.extraArgs', []);
+	const removeArgs = config.get<string[]>('trace.removeArgs', []);
+
+	const translate = (arg: string) => isClangCl && arg.startsWith('-') ? `/clang:${arg}` : arg;
+
+	const result = removeArguments(args, removeArgs, isClangCl);
+	const options: string[] = [];
+
+	if (granularity > 0) {
+		const granularityPattern = /^(\/clang:)?-ftime-trace-granularity=/;
+		for (let i = result.length - 1; i >= 0; i--) {
+			if (granularityPattern.test(result[i])) { result.splice(i, 1); }
+		}
+		options.push(`-ftime-trace-granularity=${granularity}`);
+	}
+	if (verbose) {
+		options.push('-ftime-trace-verbose');
 	}
+	options.push(...extraArgs);
 
-	return path.isAbsolute(tracePath)
-		? tracePath
-		: path.resolve(entry.directory, tracePath);
+	result.push(...options.map(translate));
+	return result;
 }
 
+export interface BuildOptions {
+	scratchDir?: string;
+	// Write the outputs to the scratch directory whatever the output.isolated setting
+	isolated?: boolean;
+	// Only parse and instantiate (-fsyntax-only), implies the isolated output mode
+	syntaxOnly?: boolean;
+}
 
-export async function buildEntry(entry: CompileEntry, outputChannel: vscode.OutputChannel): Promise<[boolean, string]> {
-	const isClangCl = (entry.command || entry.arguments?.[0] || "").includes('clang-cl');
+async function prepareEntry(entry: CompileEntry, options: BuildOptions = {}): Promise<{ exe: string, args: string[], tracePath: string }> {
+	const { exe, args: commandArgs, isClangCl } = getCommandParts(entry);
 	const extraArg = isClangCl ? "/clang:-ftime-trace" : "-ftime-trace";
+	const scratchDir = options.scratchDir;
+
+	const isolated = options.isolated || options.syntaxOnly || vscode.workspace.getConfiguration('clangTimeTracer').get<boolean>('output.isolated', false);
+	// Extra and removed arguments first: outside of the isolated mode an extra -o or -ftime-trace=<path> moves the trace
+	const tracedArgs = applyTraceOptions(commandArgs, isClangCl);
+
+	if (!isolated || !scratchDir) {
+		const args = prepareArguments(tracedArgs, extraArg);
+		const tracePath = getTraceFilePath(args, entry.file, entry.directory);
+
+		return { exe, args, tracePath };
+	}
+
+	await fs.promises.mkdir(scratchDir, { recursive: true });
+
+	const { args, tracePath } = isolateOutputs(entry, tracedArgs, isClangCl, scratchDir);
+
+	const version = await getClangMajorVersion(exe, entry.directory);
+	args.unshift(version !== undefined && version >= 16 ? `${extraArg}=${tracePath}` : extraArg);
+	if (options.syntaxOnly) {
+		args.push('-fsyntax-only');
+	}
+
+	return { exe, args, tracePath };
+}
+
+export function getSourcePath(entry: CompileEntry): string {
+	return path.isAbsolute(entry.file) ? entry.file : path.resolve(entry.directory, entry.file);
+}
+
+// -I, -isystem, -iquote, -idirafter and /I directories, in the order of the command
+export function getIncludeDirectories(entry: CompileEntry): string[] {
+	const { args } = getCommandParts(entry);
+	const flagPattern = /^(?:\/clang:)?(-I|\/I|-isystem|-iquote|-idirafter)(.*)$/;
+	const dirs: string[] = [];
+
+	for (let i = 0; i < args.length; i++) {
+		const match = args[i].match(flagPattern);
+		if (!match) { continue; }
+
+		const dir = match[2] || args[++i];
+		if (dir) {
+			dirs.push(path.resolve(entry.directory, dir));
+		}
+	}
+
+	return dirs;
+}
+
+// Same compile command as the sibling, compiling another source file
+export function createSiblingEntry(sibling: CompileEntry, sourcePath: string): CompileEntry {
+	const { exe, args } = getCommandParts(sibling);
+	const siblingSource = getSourcePath(sibling);
+
+	return {
+		directory: sibling.directory,
+		file: sourcePath,
+		arguments: [exe, ...args.map(arg => path.resolve(sibling.directory, arg) === siblingSource ? sourcePath : arg)]
+	};
+}
+
+// Same compile command as the entry, using a precompiled header built with its flags
+export function createPchUserEntry(entry: CompileEntry, pchPath: string): CompileEntry {
+	const { exe, args } = getCommandParts(entry);
+
+	return {
+		directory: entry.directory,
+		file: entry.file,
+		arguments: [exe, '-include-pch', pchPath, ...args]
+	};
+}
+
+// Compiles the header into pchPath with the flags of the entry (clang-cl builds PCHs through /Yc, not supported)
+export async function buildPrecompiledHeader(entry: CompileEntry, headerPath: string, pchPath: string, outputChannel: vscode.OutputChannel): Promise<boolean> {
+	const { exe, args: commandArgs, isClangCl } = getCommandParts(entry);
+	if (isClangCl) {
+		outputChannel.appendLine(`[Skipped] ${path.basename(entry.file)}: precompiled headers are not supported for clang-cl`);
+		return false;
+	}
+
+	const sourcePath = getSourcePath(entry);
+	const args: string[] = [];
+
+	for (let i = 0; i < commandArgs.length; i++) {
+		const arg = commandArgs[i];
+
+		if (arg === '-o' || arg === '-MF' || arg === '-MT' || arg === '-MQ' || arg === '-x') { i++; continue; }
+		if (/^-o/.test(arg) || /^-M{1,2}D$/.test(arg) || /^-M[FTQ]/.test(arg) || /^-x./.test(arg) || traceFlagPattern.test(arg)) { continue; }
+		if (arg === '-c' || path.resolve(entry.directory, arg) === sourcePath) { continue; }
+
+		args.push(arg);
+	}
 
-	const { exe, args } = prepareArguments(entry, extraArg);
-	const tracePath = getTraceFilePath(entry, args);
+	const language = path.extname(sourcePath).toLowerCase() === '.c' ? 'c-header' : 'c++-header';
+	args.push('-x', language, headerPath, '-o', pchPath);
 
+	await fs.promises.mkdir(path.dirname(pchPath), { recursive: true });
+
+	outputChannel.appendLine(`[PCH] ${exe} ${args.join(' ')}`);
+
+	return new Promise<boolean>((resolve) => {
+		const cp = spawn(exe, args, { cwd: entry.directory });
+
+		cp.stderr?.on('data', d => outputChannel.append(d.toString()));
+		cp.on('close', (code) => resolve(code === 0));
+		cp.on('error', (err) => {
+			outputChannel.appendLine(`[System Error] ${err.message}`);
+			resolve(false);
+		});
+	});
+}
+
+export interface EntryVariant {
+	label: string;
+	description: string;
+}
+
+// Tells apart the entries of a file compiled several times by their output and by the flags they don't share
+export function describeVariants(entries: CompileEntry[]): EntryVariant[] {
+	const argLists = entries.map(entry => getCommandParts(entry).args);
+
+	return argLists.map((args, i) => {
+		const objPath = getObjectPath(args);
+		const others = argLists.filter((_, j) => j !== i);
+		const distinctFlags = args.filter(arg =>
+			arg !== '-o' && arg !== '/Fo' && !(objPath && arg.endsWith(objPath)) &&
+			others.some(other => !other.includes(arg))
+		);
+
+		return {
+			label: objPath || `Variant ${i + 1}`,
+			description: distinctFlags.join(' ')
+		};
+	});
+}
+
+export interface TracedFile {
+	tracePath: string;
+	sourcePath: string;
+	target?: string;
+}
+
+export interface ExistingTraces {
+	tracePaths: TracedFile[];
+	missing: string[];
+	stale: string[];
+}
+
+export async function collectExistingTraces(entries: CompileEntry[], outputChannel: vscode.OutputChannel): Promise<ExistingTraces> {
+	const result: ExistingTraces = { tracePaths: [], missing: [], stale: [] };
+
+	for (const entry of entries) {
+		const { tracePath } = await prepareEntry(entry);
+		const sourcePath = getSourcePath(entry);
+
+		let traceStat: fs.Stats;
+		try {
+			traceStat = await fs.promises.stat(tracePath);
+		} catch {
+			result.missing.push(sourcePath);
+			outputChannel.appendLine(`[Missing] ${path.basename(sourcePath)} (expected ${tracePath})`);
+			continue;
+		}
+
+		try {
+			const sourceStat = await fs.promises.stat(sourcePath);
+			if (sourceStat.mtimeMs > traceStat.mtimeMs) {
+				result.stale.push(sourcePath);
+				outputChannel.appendLine(`[Stale] ${path.basename(sourcePath)} (${tracePath})`);
+				continue;
+			}
+		} catch {
+			// Source is gone but the trace is still readable, keep it
+		}
+
+		result.tracePaths.push({ tracePath, sourcePath, target: getTargetName(entry) });
+	}
+
+	outputChannel.appendLine(`[Traces] ${result.tracePaths.length} found, ${result.missing.length} missing, ${result.stale.length} stale.`);
+
+	return result;
+}
+
+export async function buildEntry(entry: CompileEntry, outputChannel: vscode.OutputChannel, options: BuildOptions = {}): Promise<[boolean, string]> {
 	outputChannel.clear();
 	outputChannel.show(true);
 
+	let prepared: { exe: string, args: string[], tracePath: string };
+	try {
+		prepared = await prepareEntry(entry, options);
+	} catch (err) {
+		outputChannel.appendLine(`[Error] ${err instanceof Error ? err.message : err}`);
+		vscode.window.showErrorMessage("Unable to prepare the compile command. Check Output channel.");
+		return [false, ''];
+	}
+	const { exe, args, tracePath } = prepared;
+
 	outputChannel.appendLine(`[CWD] ${entry.directory}`);
 	outputChannel.appendLine(`[Exec] ${exe} ${args.join(' ')}`);
 
@@ -129,16 +381,25 @@ export async function buildEntry(entry: CompileEntry, outputChannel: vscode.Outp
 
 		cp.on('error', (err) => {
 			outputChannel.appendLine(`[System Error] ${err.message}`);
+			vscode.window.showErrorMessage(`Unable to run ${exe}. Check Output channel.`);
 			resolve([false, tracePath]);
 		});
 	});
 }
 
-export async function buildMultipleEntries(entries: CompileEntry[], outputChannel: vscode.OutputChannel): Promise<[boolean, { tracePath: string, sourcePath: string }[]]> {
+export interface BuildFailure {
+	sourcePath: string;
+	exitCode: number;
+	stderr: string;
+}
+
+export async function buildMultipleEntries(entries: CompileEntry[], outputChannel: vscode.OutputChannel, options: BuildOptions = {}): Promise<[boolean, TracedFile[], BuildFailure[]]> {
 	const total = entries.length;
 	let completed = 0;
 	let hasErrorOccurred = false;
-	const generatedTracePaths: { tracePath: string, sourcePath: string }[] = [];
+	const generatedTracePaths: TracedFile[] = [];
+	const failures: BuildFailure[] = [];
+	const keepGoing = vscode.workspace.getConfiguration('clangTimeTracer').get<boolean>('batch.keepGoing', false);
 
 	await vscode.window.withProgress({
 		location: vscode.ProgressLocation.Notification,
@@ -155,14 +416,46 @@ export async function buildMultipleEntries(entries: CompileEntry[], outputChanne
 			outputChannel.appendLine("\n[Batch] Cancellation requested by user.");
 		});
 
+		// Reports one entry and chains the next one, unless the batch stops there
+		const finishEntry = (entry: CompileEntry, code: number, stderr: string, tracePath: string): Promise<void> | void => {
+			completed++;
+			const percent = Math.round((completed / total) * 100);
+			const status = code === 0 ? "" : " [ERROR]";
+			const fileName = path.basename(entry.file);
+
+			outputChannel.appendLine(`[${completed}/${total}] ${fileName}${status}`);
+			progress.report({
+				increment: (1 / total) * 100,
+				message: `${percent}% - ${fileName}`
+			});
+
+			if (code !== 0) {
+				outputChannel.append(stderr);
+
+				if (!keepGoing) {
+					hasErrorOccurred = true;
+					return;
+				}
+				failures.push({ sourcePath: getSourcePath(entry), exitCode: code, stderr });
+			} else {
+				generatedTracePaths.push({ tracePath, sourcePath: getSourcePath(entry), target: getTargetName(entry) });
+			}
+
+			return runNext();
+		};
+
 		const runNext = async (): Promise<void> => {
 			if (queue.length === 0 || isCancelled || hasErrorOccurred) { return; }
 
 			const entry = queue.shift()!;
-			const isClangCl = (entry.command || entry.arguments?.[0] || "").includes('clang-cl');
-			const extraArg = isClangCl ? "/clang:-ftime-trace" : "-ftime-trace";
-			const { exe, args } = prepareArguments(entry, extraArg);
-			const tracePath = getTraceFilePath(entry, args);
+
+			let prepared: { exe: string, args: string[], tracePath: string };
+			try {
+				prepared = await prepareEntry(entry, options);
+			} catch (err) {
+				return finishEntry(entry, -1, `[Error] ${err instanceof Error ? err.message : err}\n`, '');
+			}
+			const { exe, args, tracePath } = prepared;
 
 			return new Promise((resolve) => {
 				const cp = spawn(exe, args, { cwd: entry.directory });
@@ -174,30 +467,28 @@ export async function buildMultipleEntries(entries: CompileEntry[], outputChanne
 					stderrBuffer.push(d.toString());
 				});
 
-				cp.on('close', (code) => {
-					completed++;
-					const percent = Math.round((completed / total) * 100);
-					const status = code === 0 ? "" : " [ERROR]";
-					const fileName = path.basename(entry.file);
-
-					outputChannel.appendLine(`[${completed}/${total}] ${fileName}${status}`);
-					if (code !== 0) {
-						hasErrorOccurred = true;
-						outputChannel.append(stderrBuffer.join(''));
-						resolve();
-					}
-					else {
-						progress.report({
-							increment: (1 / total) * 100,
-							message: `${percent}% - ${fileName}`
-						});
-						const sourcePath = path.isAbsolute(entry.file) ? entry.file : path.resolve(entry.directory, entry.file);
-					generatedTracePaths.push({ tracePath, sourcePath });
-						resolve(runNext());
-					}
+				// A missing compiler emits 'error', and 'close' may or may not follow.
+				// A cancelled compilation still closes, it is neither a trace nor a failure.
+				let settled = false;
+				const onExit = (code: number | null) => {
+					if (settled) { return; }
+					settled = true;
+					cancellation.dispose();
+
+					resolve(finishEntry(entry, code ?? -1, stderrBuffer.join(''), tracePath));
+				};
+
+				cp.on('close', onExit);
+				cp.on('error', (err) => {
+					stderrBuffer.push(`[System Error] ${exe}: ${err.message}\n`);
+					onExit(-1);
 				});
 
-				token.onCancellationRequested(() => {
+				const cancellation = token.onCancellationRequested(() => {
+					if (settled) { return; }
+					settled = true;
+					cancellation.dispose();
+
 					cp.kill();
 					resolve();
 				});
@@ -213,11 +504,17 @@ export async function buildMultipleEntries(entries: CompileEntry[], outputChanne
 		} else if (hasErrorOccurred) {
 			vscode.window.showErrorMessage("Batch compilation stopped due to error. Check output channel.");
 			outputChannel.appendLine("Compilation stopped due to error.");
+		} else if (failures.length === total) {
+			vscode.window.showErrorMessage(`All ${total} files failed to compile. Check output channel.`);
+			outputChannel.appendLine("Every file failed.");
+		} else if (failures.length > 0) {
+			vscode.window.showWarningMessage(`${failures.length} of ${total} files failed to compile, analyzing the others.`);
+			outputChannel.appendLine(`Completed with ${failures.length} failure(s).`);
 		} else {
 			vscode.window.showInformationMessage(`Successfully analyzed ${total} files.`);
 			outputChannel.appendLine("Successfull");
 		}
 	});
 
-	return [hasErrorOccurred === false, generatedTracePaths];
+	return [hasErrorOccurred === false, generatedTracePaths, failures];
 }
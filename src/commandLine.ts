@@ -0,0 +1,224 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+const MAX_RESPONSE_FILE_DEPTH = 16;
+
+export type CommandQuoting = 'auto' | 'gnu' | 'windows';
+
+export function splitCommand(command: string): string[] {
+	const args: string[] = [];
+	let current = '';
+	let inDouble = false;
+	let inSingle = false;
+
+	for (let i = 0; i < command.length; i++) {
+		const ch = command[i];
+
+		if (inSingle) {
+			if (ch === "'") { inSingle = false; }
+			else { current += ch; }
+		} else if (inDouble) {
+			if (ch === '"') {
+				inDouble = false;
+			} else if (ch === '\\' && i + 1 < command.length && (command[i + 1] === '"' || command[i + 1] === '\\')) {
+				current += command[++i];
+			} else {
+				current += ch;
+			}
+		} else {
+			if (ch === ' ' || ch === '\t' || ch === '\n' || ch === '\r') {
+				if (current.length > 0) { args.push(current); current = ''; }
+			} else if (ch === '"') {
+				inDouble = true;
+			} else if (ch === "'") {
+				inSingle = true;
+			} else if (ch === '\\' && i + 1 < command.length && command[i + 1] === '"') {
+				current += command[++i];
+			} else {
+				current += ch;
+			}
+		}
+	}
+
+	if (current.length > 0) { args.push(current); }
+	return args;
+}
+
+// CommandLineToArgvW rules: backslashes are literal unless they precede a quote
+export function splitWindowsCommand(command: string): string[] {
+	const args: string[] = [];
+	let current = '';
+	let inQuotes = false;
+	let hasToken = false;
+
+	for (let i = 0; i < command.length; i++) {
+		const ch = command[i];
+
+		if (ch === '\\') {
+			let count = 0;
+			while (i < command.length && command[i] === '\\') { count++; i++; }
+
+			if (command[i] === '"') {
+				current += '\\'.repeat(Math.floor(count / 2));
+				if (count % 2 === 1) {
+					current += '"';
+				} else {
+					i--;
+				}
+			} else {
+				current += '\\'.repeat(count);
+				i--;
+			}
+			hasToken = true;
+		} else if (ch === '"') {
+			if (inQuotes && command[i + 1] === '"') {
+				current += '"';
+				i++;
+			} else {
+				inQuotes = !inQuotes;
+			}
+			hasToken = true;
+		} else if (!inQuotes && (ch === ' ' || ch === '\t' || ch === '\n' || ch === '\r')) {
+			if (hasToken) { args.push(current); current = ''; hasToken = false; }
+		} else {
+			current += ch;
+			hasToken = true;
+		}
+	}
+
+	if (hasToken) { args.push(current); }
+	return args;
+}
+
+export function isClangClCommand(exe: string, args: string[]): boolean {
+	return path.parse(exe.replace(/\\/g, '/')).name.toLowerCase().includes('clang-cl')
+		|| args.includes('--driver-mode=cl');
+}
+
+// ccache/sccache/distcc would serve the object from cache and never produce the trace
+export function stripLaunchers(parts: string[], launchers: string[]): string[] {
+	const names = launchers.map(l => l.toLowerCase());
+	const isLauncher = (arg: string) => names.includes(path.parse(arg.replace(/\\/g, '/')).name.toLowerCase());
+
+	let start = 0;
+	while (parts.length - start > 1 && isLauncher(parts[start])) {
+		start++;
+	}
+	return parts.slice(start);
+}
+
+// In auto mode the driver is found with the GNU rules, which keep a quoted executable path intact.
+// The launchers are skipped to find it, but are kept in the result.
+export function splitCompileCommand(command: string, quoting: CommandQuoting = 'auto', launchers: string[] = []): string[] {
+	if (quoting === 'auto') {
+		const gnuParts = splitCommand(command);
+		const driverParts = stripLaunchers(gnuParts, launchers);
+		if (!isClangClCommand(driverParts[0] ?? "", driverParts)) {
+			return gnuParts;
+		}
+		quoting = 'windows';
+	}
+
+	return quoting === 'windows' ? splitWindowsCommand(command) : splitCommand(command);
+}
+
+// The last -o wins, as for the compiler: an extra -o from trace.extraArgs overrides the original one
+export function getObjectPath(args: string[]): string {
+	let objPath = "";
+
+	for (let i = 0; i < args.length; i++) {
+		const arg = args[i];
+		if (arg === '-o' || arg === '/Fo') {
+			objPath = args[++i] ?? "";
+		} else if (arg.startsWith('/Fo')) {
+			objPath = arg.substring(3);
+		} else if (arg.startsWith('-o')) {
+			objPath = arg.substring(2);
+		}
+	}
+
+	return objPath.replace(/^['"]|['"]$/g, '');
+}
+
+// Where clang writes the trace: the -ftime-trace=<file>.json, <directory>/<object name>.json for
+// -ftime-trace=<directory>, otherwise next to the object
+export function getTraceFilePath(args: string[], sourceFile: string, directory: string): string {
+	const objPath = getObjectPath(args);
+	const traceValue = args.map(arg => arg.match(/^(?:\/clang:)?-ftime-trace=(.+)$/)?.[1]).filter(Boolean).pop();
+	const fileName = path.parse(objPath || sourceFile).name + '.json';
+
+	let tracePath = fileName;
+	if (traceValue?.endsWith('.json')) {
+		tracePath = traceValue;
+	} else if (traceValue) {
+		tracePath = path.join(traceValue, fileName);
+	} else if (objPath) {
+		tracePath = path.join(path.dirname(objPath), fileName);
+	}
+
+	return path.resolve(directory, tracePath);
+}
+
+// Flags whose value is the next argument
+const SEPARATE_VALUE_FLAGS: ReadonlySet<string> = new Set([
+	'-include', '-imacros', '-include-pch', '-isystem', '-iquote', '-idirafter', '-isysroot',
+	'-I', '-D', '-U', '-o', '-x', '-MF', '-MT', '-MQ', '-target', '-arch',
+	'-Xclang', '-Xpreprocessor', '-Xassembler', '-Xlinker', '-mllvm'
+]);
+// Flags handing their value over to another tool: removing the value removes them too
+const FORWARDING_FLAGS: ReadonlySet<string> = new Set(['-Xclang', '-Xpreprocessor', '-Xassembler', '-Xlinker', '-mllvm']);
+
+// Patterns use the GNU spelling, a trailing '*' matches by prefix. For clang-cl they also match /clang:<arg>.
+export function removeArguments(args: string[], patterns: string[], isClangCl: boolean): string[] {
+	const unwrap = (arg: string) => isClangCl && arg.startsWith('/clang:') ? arg.substring(7) : arg;
+	const isRemoved = (arg: string) => patterns.some(pattern => {
+		const matches = (candidate: string) => pattern.endsWith('*')
+			? candidate.startsWith(pattern.slice(0, -1))
+			: candidate === pattern;
+		return matches(arg) || matches(unwrap(arg));
+	});
+
+	const result: string[] = [];
+	for (let i = 0; i < args.length; i++) {
+		const flag = unwrap(args[i]);
+
+		if (!SEPARATE_VALUE_FLAGS.has(flag) || i + 1 >= args.length) {
+			if (!isRemoved(args[i])) { result.push(args[i]); }
+			continue;
+		}
+
+		// Two-token flag: the value never matches on its own, it goes or stays with its flag
+		const value = args[++i];
+		const removed = isRemoved(args[i - 1]) || (FORWARDING_FLAGS.has(flag) && isRemoved(value));
+		if (!removed) { result.push(args[i - 1], value); }
+	}
+
+	return result;
+}
+
+// Top-level @file references are relative to the working directory of the compiler, nested ones to the
+// response file containing them, as for the clang driver
+export function expandResponseFiles(args: string[], directory: string, tokenize: (content: string) => string[], depth: number = 0): string[] {
+	const expanded: string[] = [];
+
+	for (const arg of args) {
+		if (!arg.startsWith('@') || arg.length === 1 || depth >= MAX_RESPONSE_FILE_DEPTH) {
+			expanded.push(arg);
+			continue;
+		}
+
+		const rspPath = path.resolve(directory, arg.substring(1));
+		let content: string;
+		try {
+			content = fs.readFileSync(rspPath, 'utf8').replace(/^\uFEFF/, '');
+		} catch {
+			// Not a readable response file, leave it to the compiler
+			expanded.push(arg);
+			continue;
+		}
+
+		expanded.push(...expandResponseFiles(tokenize(content), path.dirname(rspPath), tokenize, depth + 1));
+	}
+
+	return expanded;
+}
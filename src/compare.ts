@@ -0,0 +1,83 @@
+import { AggregatedTraces } from './traceParser';
+
+// Pure comparison of two folder analyses, shown by ComparePanel
+
+export type DeltaStatus = 'added' | 'removed' | 'slower' | 'faster' | 'unchanged';
+
+export interface TimeDelta {
+	path: string;
+	before: number;
+	after: number;
+	delta: number;
+	status: DeltaStatus;
+}
+
+export interface AnalysisDiff {
+	totalBefore: number;
+	totalAfter: number;
+	// Compilation time of each translation unit
+	files: TimeDelta[];
+	// Self parse time of each header
+	includes: TimeDelta[];
+	// Cumulative parse time of each header over all its includers
+	cumulatedIncludes: TimeDelta[];
+}
+
+// Differences under a millisecond are measurement noise
+const NOISE = 1000;
+
+function diffTimes(before: Map<string, number>, after: Map<string, number>): TimeDelta[] {
+	const deltas: TimeDelta[] = [];
+
+	for (const key of new Set([...before.keys(), ...after.keys()])) {
+		const beforeTime = before.get(key);
+		const afterTime = after.get(key);
+		const delta = (afterTime ?? 0) - (beforeTime ?? 0);
+
+		let status: DeltaStatus;
+		if (beforeTime === undefined) {
+			status = 'added';
+		} else if (afterTime === undefined) {
+			status = 'removed';
+		} else if (Math.abs(delta) < NOISE) {
+			status = 'unchanged';
+		} else {
+			status = delta > 0 ? 'slower' : 'faster';
+		}
+
+		deltas.push({ path: key, before: beforeTime ?? 0, after: afterTime ?? 0, delta, status });
+	}
+
+	// Regressions first, improvements last
+	return deltas.sort((a, b) => b.delta - a.delta);
+}
+
+function sumBy<T>(items: T[], key: (item: T) => string, value: (item: T) => number): Map<string, number> {
+	const sums = new Map<string, number>();
+	for (const item of items) {
+		sums.set(key(item), (sums.get(key(item)) ?? 0) + value(item));
+	}
+	return sums;
+}
+
+export function compareAnalyses(before: AggregatedTraces, after: AggregatedTraces): AnalysisDiff {
+	// The variants of a file are added up, as in a build
+	const files = diffTimes(
+		sumBy(before.files, f => f.sourcePath, f => f.totalTime),
+		sumBy(after.files, f => f.sourcePath, f => f.totalTime)
+	);
+
+	return {
+		totalBefore: before.files.reduce((sum, f) => sum + f.totalTime, 0),
+		totalAfter: after.files.reduce((sum, f) => sum + f.totalTime, 0),
+		files,
+		includes: diffTimes(
+			new Map(before.includes.map(i => [i.path, i.maxTime])),
+			new Map(after.includes.map(i => [i.path, i.maxTime]))
+		),
+		cumulatedIncludes: diffTimes(
+			new Map(before.cumulatedIncludes.map(i => [i.path, i.totalTime])),
+			new Map(after.cumulatedIncludes.map(i => [i.path, i.totalTime]))
+		)
+	};
+}
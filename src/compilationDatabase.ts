@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
+import { CommandQuoting, splitCompileCommand } from './commandLine';
 
 export interface CompileEntry {
 	command?: string;
@@ -9,100 +10,233 @@ export interface CompileEntry {
 	file: string;
 }
 
-export class CompilationDatabase implements vscode.Disposable {
-	private entries = new Map<string, CompileEntry>();
-	private watcher?: vscode.FileSystemWatcher;
-	private loadingPromise?: Promise<void>;
-	private readonly disposables: vscode.Disposable[] = [];
-
-	constructor(private outputChannel: vscode.OutputChannel) {
-		const folder = vscode.workspace.workspaceFolders?.[0];
-		if (folder) {
-			this.initWatcher(folder);
-			this.loadingPromise = this.loadDatabase(folder);
-
-			this.disposables.push(vscode.workspace.onDidChangeConfiguration(e => {
-				if (e.affectsConfiguration('clangTimeTracer.compileCommands.path')) {
-					this.initWatcher(folder);
-					this.loadingPromise = this.loadDatabase(folder);
-				}
-			}));
-		}
-	}
-
-	private getFullDatabasePath(folder: vscode.WorkspaceFolder): string {
-		const config = vscode.workspace.getConfiguration('clangTimeTracer');
-		const configPath = config.get<string>('compileCommands.path') || "";
-
-		let resolvedPath = path.isAbsolute(configPath)
-			? configPath
-			: path.join(folder.uri.fsPath, configPath);
-
-		if (!resolvedPath.toLowerCase().endsWith('.json')) {
-			resolvedPath = path.join(resolvedPath, 'compile_commands.json');
-		}
+// Same directory, file and arguments, whatever the key order or the command/arguments spelling
+function getVariantKey(entry: CompileEntry, quoting: CommandQuoting): string {
+	const args = entry.arguments && entry.arguments.length > 0
+		? entry.arguments
+		: splitCompileCommand(entry.command ?? "", quoting);
 
-		return resolvedPath;
-	}
+	return [path.resolve(entry.directory), path.resolve(entry.directory, entry.file), ...args].join('\0');
+}
 
-	private initWatcher(folder: vscode.WorkspaceFolder) {
-		this.watcher?.dispose();
-		const dbPath = this.getFullDatabasePath(folder);
+class DatabaseFile implements vscode.Disposable {
+	// A file built for several targets, configs or ABIs has one entry per variant
+	private entries = new Map<string, CompileEntry[]>();
+	private found = false;
+	private watcher: vscode.FileSystemWatcher;
+	private loadingPromise: Promise<void>;
 
+	constructor(public readonly dbPath: string, private outputChannel: vscode.OutputChannel) {
 		this.watcher = vscode.workspace.createFileSystemWatcher(dbPath);
-		this.disposables.push(this.watcher);
 
-		const reload = () => { this.loadingPromise = this.loadDatabase(folder); };
+		const reload = () => { this.loadingPromise = this.loadDatabase(); };
 		this.watcher.onDidChange(reload);
 		this.watcher.onDidCreate(reload);
-		this.watcher.onDidDelete(() => this.entries.clear());
-	}
+		this.watcher.onDidDelete(() => {
+			this.entries.clear();
+			this.found = false;
+		});
 
-	private async loadDatabase(folder: vscode.WorkspaceFolder) {
-		const dbPath = this.getFullDatabasePath(folder);
+		this.loadingPromise = this.loadDatabase();
+	}
 
-		if (!fs.existsSync(dbPath)) {
-			this.outputChannel.appendLine(`[Error] file not found: ${dbPath}`);
-			vscode.window.showWarningMessage(`Clang Time Tracer: compile_commands.json not found at ${dbPath}`);
+	// A workspace folder without a database (docs, scripts...) is expected, the commands warn when none has one
+	private async loadDatabase() {
+		this.found = fs.existsSync(this.dbPath);
+		if (!this.found) {
+			this.outputChannel.appendLine(`[DB] file not found: ${this.dbPath}`);
 			return;
 		}
 
 		try {
-			const content = await fs.promises.readFile(dbPath, 'utf8');
+			const content = await fs.promises.readFile(this.dbPath, 'utf8');
 			const data: CompileEntry[] = JSON.parse(content);
+			const quoting = vscode.workspace.getConfiguration('clangTimeTracer').get<CommandQuoting>('compileCommands.quoting', 'auto');
+			const variantKeys = new Set<string>();
 			this.entries.clear();
 
 			for (const entry of data) {
 				const fullPath = path.resolve(entry.directory, entry.file);
-				this.entries.set(vscode.Uri.file(fullPath).toString(), entry);
+				const key = vscode.Uri.file(fullPath).toString();
+				const variants = this.entries.get(key) ?? [];
+
+				const variantKey = getVariantKey(entry, quoting);
+				if (!variantKeys.has(variantKey)) {
+					variantKeys.add(variantKey);
+					variants.push(entry);
+				}
+				this.entries.set(key, variants);
 			}
-			this.outputChannel.appendLine(`[DB] Loaded ${this.entries.size} entries.`);
+			this.outputChannel.appendLine(`[DB] Loaded ${data.length} entries (${this.entries.size} files) from ${this.dbPath}.`);
 		} catch (err) {
 			this.outputChannel.appendLine(`[Error] Failed to load compilation database: ${err}`);
 			vscode.window.showErrorMessage(`Clang Time Tracer: Failed to read compile_commands.json. Check Output channel.`);
 		}
 	}
 
-	public async getEntryForFile(uri: vscode.Uri): Promise<CompileEntry | undefined> {
+	public async isFound(): Promise<boolean> {
+		await this.loadingPromise;
+		return this.found;
+	}
+
+	public async getEntriesForFile(uri: vscode.Uri): Promise<CompileEntry[]> {
 		await this.loadingPromise;
-		return this.entries.get(uri.toString());
+		return this.entries.get(uri.toString()) ?? [];
 	}
 
-	public getAllEntriesInFolder(folderUri: vscode.Uri): CompileEntry[] {
+	public async getAllEntriesInFolder(folderUri: vscode.Uri, allVariants: boolean): Promise<CompileEntry[]> {
+		await this.loadingPromise;
+
 		const folderPath = folderUri.fsPath.toLowerCase();
 		const entries: CompileEntry[] = [];
 
-		for (const [uriStr, entry] of this.entries.entries()) {
+		for (const [uriStr, variants] of this.entries.entries()) {
 			const fileFsPath = vscode.Uri.parse(uriStr).fsPath.toLowerCase();
 			if (fileFsPath.startsWith(folderPath)) {
-				entries.push(entry);
+				entries.push(...(allVariants ? variants : variants.slice(0, 1)));
 			}
 		}
 		return entries;
 	}
 
+	public async hasVariantsInFolder(folderUri: vscode.Uri): Promise<boolean> {
+		await this.loadingPromise;
+
+		const folderPath = folderUri.fsPath.toLowerCase();
+		for (const [uriStr, variants] of this.entries.entries()) {
+			if (variants.length > 1 && vscode.Uri.parse(uriStr).fsPath.toLowerCase().startsWith(folderPath)) {
+				return true;
+			}
+		}
+		return false;
+	}
+
+	public dispose() {
+		this.watcher.dispose();
+	}
+}
+
+export class CompilationDatabase implements vscode.Disposable {
+	private databases = new Map<string, DatabaseFile>();
+	// Once per reload, a command needing the database may query it several times
+	private missingDatabaseWarned = false;
+	private readonly disposables: vscode.Disposable[] = [];
+
+	constructor(private outputChannel: vscode.OutputChannel, private state: vscode.Memento) {
+		this.reload();
+
+		this.disposables.push(vscode.workspace.onDidChangeConfiguration(e => {
+			if (e.affectsConfiguration('clangTimeTracer.compileCommands')) {
+				this.reload();
+			}
+		}));
+		this.disposables.push(vscode.workspace.onDidChangeWorkspaceFolders(() => this.reload()));
+	}
+
+	private resolveDatabasePath(folder: vscode.WorkspaceFolder, configPath: string): string {
+		let resolvedPath = path.isAbsolute(configPath)
+			? configPath
+			: path.join(folder.uri.fsPath, configPath);
+
+		if (!resolvedPath.toLowerCase().endsWith('.json')) {
+			resolvedPath = path.join(resolvedPath, 'compile_commands.json');
+		}
+
+		return resolvedPath;
+	}
+
+	public getDatabasePaths(folder: vscode.WorkspaceFolder): string[] {
+		const config = vscode.workspace.getConfiguration('clangTimeTracer', folder.uri);
+		const configPaths = [
+			config.get<string>('compileCommands.path') || "",
+			...config.get<string[]>('compileCommands.additionalPaths', [])
+		];
+
+		return [...new Set(configPaths.map(p => this.resolveDatabasePath(folder, p)))];
+	}
+
+	public getActiveDatabasePath(folder: vscode.WorkspaceFolder): string {
+		const candidates = this.getDatabasePaths(folder);
+		const selected = this.state.get<string>(`activeDatabase:${folder.uri.toString()}`);
+
+		return selected && candidates.includes(selected) ? selected : candidates[0];
+	}
+
+	public async setActiveDatabasePath(folder: vscode.WorkspaceFolder, dbPath: string) {
+		await this.state.update(`activeDatabase:${folder.uri.toString()}`, dbPath);
+		this.reload();
+	}
+
+	private reload() {
+		const previous = this.databases;
+		this.databases = new Map();
+		this.missingDatabaseWarned = false;
+
+		for (const folder of vscode.workspace.workspaceFolders ?? []) {
+			const dbPath = this.getActiveDatabasePath(folder);
+			const key = folder.uri.toString();
+			const existing = previous.get(key);
+
+			if (existing && existing.dbPath === dbPath) {
+				this.databases.set(key, existing);
+				previous.delete(key);
+			} else {
+				this.databases.set(key, new DatabaseFile(dbPath, this.outputChannel));
+			}
+		}
+
+		previous.forEach(db => db.dispose());
+	}
+
+	private async warnIfNoDatabase() {
+		const databases = [...this.databases.values()];
+		const found = await Promise.all(databases.map(db => db.isFound()));
+		if (found.some(Boolean) || this.missingDatabaseWarned) { return; }
+
+		this.missingDatabaseWarned = true;
+		const paths = databases.map(db => db.dbPath).join(', ');
+		vscode.window.showWarningMessage(`Clang Time Tracer: compile_commands.json not found${paths ? ` at ${paths}` : ''}`);
+	}
+
+	// The database of the owning workspace folder comes first, the others are fallbacks
+	private getDatabasesFor(uri: vscode.Uri): DatabaseFile[] {
+		const folder = vscode.workspace.getWorkspaceFolder(uri);
+		const own = folder ? this.databases.get(folder.uri.toString()) : undefined;
+		const others = [...this.databases.values()].filter(db => db !== own);
+
+		return own ? [own, ...others] : others;
+	}
+
+	public async getEntriesForFile(uri: vscode.Uri): Promise<CompileEntry[]> {
+		await this.warnIfNoDatabase();
+		for (const db of this.getDatabasesFor(uri)) {
+			const entries = await db.getEntriesForFile(uri);
+			if (entries.length > 0) { return entries; }
+		}
+		return [];
+	}
+
+	// The first database with entries in the folder, for the variant check as for the entries
+	private async getDatabaseForFolder(folderUri: vscode.Uri): Promise<DatabaseFile | undefined> {
+		await this.warnIfNoDatabase();
+		for (const db of this.getDatabasesFor(folderUri)) {
+			if ((await db.getAllEntriesInFolder(folderUri, false)).length > 0) { return db; }
+		}
+		return undefined;
+	}
+
+	public async getAllEntriesInFolder(folderUri: vscode.Uri, allVariants: boolean = true): Promise<CompileEntry[]> {
+		const db = await this.getDatabaseForFolder(folderUri);
+		return db ? db.getAllEntriesInFolder(folderUri, allVariants) : [];
+	}
+
+	public async hasVariantsInFolder(folderUri: vscode.Uri): Promise<boolean> {
+		const db = await this.getDatabaseForFolder(folderUri);
+		return db ? db.hasVariantsInFolder(folderUri) : false;
+	}
+
 	public dispose() {
-		this.watcher?.dispose();
+		this.databases.forEach(db => db.dispose());
 		this.disposables.forEach(d => d.dispose());
 	}
 }
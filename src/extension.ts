@@ -1,33 +1,108 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
-import { CompilationDatabase } from './compilationDatabase';
-import { buildEntry, buildMultipleEntries } from './builder';
-import { collectAndMergeTrace } from './analyzer';
-import { TraceFilePanel } from './panels/filePanel';
-import { TraceFolderPanel } from './panels/folderPanel';
-import { pickFolderIntegrated } from './ui';
+import { CompilationDatabase, CompileEntry } from './compilationDatabase';
+import { buildEntry, buildMultipleEntries, buildPrecompiledHeader, collectExistingTraces, createPchUserEntry, getCompilerMajorVersion, getCompilerVersion, getSourcePath } from './builder';
+import { TraceResult, collectAndMergeTrace, isClangTraceFile } from './analyzer';
+import { createHeaderUnit, findHeadersInFolder, findIncludingUnits, findSiblingEntry, isHeaderFile } from './headers';
+import { TraceFilePanel, TraceFileSource } from './panels/filePanel';
+import { FolderPanelState, TraceFolderPanel } from './panels/folderPanel';
+import { TraceComparePanel } from './panels/comparePanel';
+import { TraceHistoryPanel } from './panels/historyPanel';
+import { AnalysisMetadata, autosaveAnalysis, getGitCommit, readAnalysis, writeAnalysis } from './analysisFile';
+import { compareAnalyses } from './compare';
+import { listTrackedFiles, loadHistory, recordAnalysis, saveHistory } from './history';
+import { planPch, renderPchHeader } from './pch';
+import { parseClangTrace } from './traceParser';
+import { pickAllVariants, pickEntryVariant, pickFolderIntegrated, pickIncludingUnit, pickTrackedFile } from './ui';
 
 export function activate(context: vscode.ExtensionContext) {
 	const outputChannel = vscode.window.createOutputChannel("Clang Time Tracer");
-	const db = new CompilationDatabase(outputChannel);
+	const db = new CompilationDatabase(outputChannel, context.workspaceState);
 	context.subscriptions.push(outputChannel, db);
 
+	const scratchDir = vscode.Uri.joinPath(context.storageUri ?? context.globalStorageUri, 'traces').fsPath;
+	const analysesDir = vscode.Uri.joinPath(context.storageUri ?? context.globalStorageUri, 'analyses').fsPath;
+
+	context.subscriptions.push(
+		vscode.window.registerWebviewPanelSerializer('ClangTimeTrace', {
+			deserializeWebviewPanel: async (panel, state: TraceFileSource | undefined) => TraceFilePanel.revive(panel, context.extensionUri, state)
+		}),
+		vscode.window.registerWebviewPanelSerializer('ClangFolderAnalysis', {
+			deserializeWebviewPanel: (panel, state: FolderPanelState | undefined) => TraceFolderPanel.revive(panel, context.extensionUri, state)
+		})
+	);
+
+	// Last folder analysis, tells which translation units include a header
+	let lastTraceResult: TraceResult | undefined;
+	let lastAnalysisMetadata: AnalysisMetadata = {};
+
+	const historyPath = vscode.Uri.joinPath(context.storageUri ?? context.globalStorageUri, 'history.json').fsPath;
+	const isHistoryEnabled = () => vscode.workspace.getConfiguration('clangTimeTracer').get<boolean>('history.enabled', false);
+
+	// Analyses finishing together would load the same history and the last save would drop the other points
+	let historyUpdates = Promise.resolve();
+
+	const recordHistory = (result: Pick<TraceResult, 'files' | 'cumulatedIncludes'>, metadata: AnalysisMetadata) => {
+		if (!isHistoryEnabled()) { return historyUpdates; }
+
+		historyUpdates = historyUpdates.then(async () => {
+			try {
+				const history = await loadHistory(historyPath);
+				recordAnalysis(history, result, metadata.createdAt ?? new Date().toISOString(), metadata.gitCommit, metadata.folderPath);
+				await saveHistory(historyPath, history);
+			} catch (err) {
+				outputChannel.appendLine(`[Warning] Unable to record the compile time history: ${err}`);
+			}
+		});
+		return historyUpdates;
+	};
+
 	const traceFile = vscode.commands.registerCommand('clang_time_tracer.trace_file', async () => {
 		const editor = vscode.window.activeTextEditor;
 		if (!editor) { return; }
 
-		const entry = await db.getEntryForFile(editor.document.uri);
-		if (!entry) {
+		const fileUri = editor.document.uri;
+		let entries = await db.getEntriesForFile(fileUri);
+		let highlightPath: string | undefined;
+
+		if (entries.length === 0 && isHeaderFile(fileUri.fsPath)) {
+			const units = await findIncludingUnits(fileUri, db, lastTraceResult);
+			if (units.length === 0) {
+				vscode.window.showErrorMessage("No translation unit including this header was found in compile_commands.json");
+				return;
+			}
+
+			const unit = await pickIncludingUnit(path.basename(fileUri.fsPath), units);
+			if (!unit) { return; }
+
+			entries = await db.getEntriesForFile(vscode.Uri.file(unit.sourcePath));
+			highlightPath = fileUri.fsPath;
+		}
+
+		if (entries.length === 0) {
 			vscode.window.showErrorMessage("No compile command found for this file in compile_commands.json");
 			return;
 		}
 
-		const [result, tracePath] = await buildEntry(entry, outputChannel);
+		const entry = await pickEntryVariant(entries);
+		if (!entry) { return; }
+
+		const [result, tracePath] = await buildEntry(entry, outputChannel, { scratchDir });
 
 		if (result) {
 			if (fs.existsSync(tracePath)) {
-				TraceFilePanel.createOrShow(context.extensionUri, tracePath);
+				TraceFilePanel.createOrShow(context.extensionUri, tracePath, highlightPath);
+
+				if (isHistoryEnabled()) {
+					// The header times of a single file would not match the cumulative ones of the folder analyses
+					const sourcePath = getSourcePath(entry);
+					const { files } = await collectAndMergeTrace([{ tracePath, sourcePath }]);
+					await recordHistory({ files, cumulatedIncludes: [] }, {
+						createdAt: new Date().toISOString(),
+						gitCommit: await getGitCommit(path.dirname(sourcePath))
+					});
+				}
 			} else {
 				outputChannel.appendLine(`[Error] Trace file not found at: ${tracePath}`);
 			}
@@ -36,6 +111,48 @@ export function activate(context: vscode.ExtensionContext) {
 
 	context.subscriptions.push(traceFile);
 
+	const getFolderEntries = async (folderUri: vscode.Uri): Promise<CompileEntry[] | undefined> => {
+		const variants = vscode.workspace.getConfiguration('clangTimeTracer').get<string>('batch.variants', 'ask');
+
+		let allVariants = variants === 'all';
+		if (variants === 'ask' && await db.hasVariantsInFolder(folderUri)) {
+			const choice = await pickAllVariants();
+			if (choice === undefined) { return undefined; }
+			allVariants = choice;
+		}
+
+		return db.getAllEntriesInFolder(folderUri, allVariants);
+	};
+
+	const getAnalysisMetadata = async (folderUri: vscode.Uri, entries: CompileEntry[]): Promise<AnalysisMetadata> => {
+		const workspaceFolder = vscode.workspace.getWorkspaceFolder(folderUri);
+
+		return {
+			folderPath: folderUri.fsPath,
+			databasePath: workspaceFolder && db.getActiveDatabasePath(workspaceFolder),
+			createdAt: new Date().toISOString(),
+			gitCommit: await getGitCommit(folderUri.fsPath),
+			compilerVersion: await getCompilerVersion(entries[0])
+		};
+	};
+
+	// Folder panels point to an analysis file to be restored after a window reload
+	const openFolderPanel = async (traceResult: TraceResult, metadata: AnalysisMetadata, title: string, analysisPath?: string) => {
+		if (!analysisPath) {
+			analysisPath = await autosaveAnalysis(analysesDir, traceResult, metadata).catch(err => {
+				outputChannel.appendLine(`[Warning] Unable to autosave the analysis, it won't be restored after a reload: ${err}`);
+				return undefined;
+			});
+		}
+		TraceFolderPanel.createOrShow(context.extensionUri, traceResult, title, metadata, analysisPath);
+	};
+
+	const showFolderAnalysis = async (traceResult: TraceResult, metadata: AnalysisMetadata, title: string, analysisPath?: string) => {
+		lastTraceResult = traceResult;
+		lastAnalysisMetadata = metadata;
+		await openFolderPanel(traceResult, metadata, title, analysisPath);
+	};
+
 	const traceFolder = vscode.commands.registerCommand('clang_time_tracer.trace_folder', async (uri?: vscode.Uri) => {
 		let targetUri = uri;
 
@@ -45,7 +162,8 @@ export function activate(context: vscode.ExtensionContext) {
 
 		if (!targetUri) { return; }
 
-		const entries = db.getAllEntriesInFolder(targetUri);
+		const entries = await getFolderEntries(targetUri);
+		if (!entries) { return; }
 
 		if (entries.length === 0) {
 			vscode.window.showWarningMessage("No files found in the compilation database for this folder.");
@@ -55,16 +173,490 @@ export function activate(context: vscode.ExtensionContext) {
 		outputChannel.clear();
 		outputChannel.show(true);
 
-		const [result, tracePaths] = await buildMultipleEntries(entries, outputChannel);
-		if (result) {
-			const traceResult = await collectAndMergeTrace(tracePaths);
-			TraceFolderPanel.createOrShow(
-				context.extensionUri,
+		// With batch.keepGoing, every unit may have failed: nothing to analyze, the batch already reported it
+		const [result, tracePaths, failures] = await buildMultipleEntries(entries, outputChannel, { scratchDir });
+		if (result && tracePaths.length > 0) {
+			const traceResult = await collectAndMergeTrace(tracePaths, failures);
+			const metadata = await getAnalysisMetadata(targetUri, entries);
+			await showFolderAnalysis(traceResult, metadata, path.basename(targetUri.fsPath));
+			await recordHistory(traceResult, metadata);
+		}
+	});
+
+	context.subscriptions.push(traceFolder);
+
+	const analyzeFolder = vscode.commands.registerCommand('clang_time_tracer.analyze_folder', async (uri?: vscode.Uri) => {
+		let targetUri = uri;
+
+		if (!targetUri) {
+			targetUri = await pickFolderIntegrated();
+		}
+
+		if (!targetUri) { return; }
+
+		const entries = await getFolderEntries(targetUri);
+		if (!entries) { return; }
+
+		if (entries.length === 0) {
+			vscode.window.showWarningMessage("No files found in the compilation database for this folder.");
+			return;
+		}
+
+		outputChannel.clear();
+		outputChannel.show(true);
+
+		const { tracePaths, missing, stale } = await collectExistingTraces(entries, outputChannel);
+		if (tracePaths.length === 0) {
+			vscode.window.showErrorMessage("No up-to-date trace found for this folder. Build it with -ftime-trace first.");
+			return;
+		}
+
+		if (missing.length > 0 || stale.length > 0) {
+			vscode.window.showWarningMessage(`${missing.length} trace(s) missing and ${stale.length} stale, skipped. Check output channel.`);
+		}
+
+		const traceResult = await collectAndMergeTrace(tracePaths);
+		const metadata = await getAnalysisMetadata(targetUri, entries);
+		await showFolderAnalysis(traceResult, metadata, path.basename(targetUri.fsPath));
+		await recordHistory(traceResult, metadata);
+	});
+
+	context.subscriptions.push(analyzeFolder);
+
+	const openTrace = vscode.commands.registerCommand('clang_time_tracer.open_trace', async (uri?: vscode.Uri) => {
+		let targetUri = uri;
+
+		if (!targetUri) {
+			const selection = await vscode.window.showOpenDialog({
+				canSelectMany: false,
+				openLabel: "Open trace",
+				filters: { "Clang time trace": ["json"] }
+			});
+			targetUri = selection?.[0];
+		}
+
+		if (!targetUri) { return; }
+
+		if (!await isClangTraceFile(targetUri.fsPath)) {
+			vscode.window.showErrorMessage(`${path.basename(targetUri.fsPath)} is not a Clang -ftime-trace file.`);
+			return;
+		}
+
+		TraceFilePanel.createOrShow(context.extensionUri, targetUri.fsPath);
+	});
+
+	context.subscriptions.push(openTrace);
+
+	const compareTraces = vscode.commands.registerCommand('clang_time_tracer.compare_traces', async (uri?: vscode.Uri, uris?: vscode.Uri[]) => {
+		if (uris && uris.length > 2) {
+			vscode.window.showWarningMessage(`Select two traces to compare, ${uris.length} are selected.`);
+			return;
+		}
+
+		// Two traces selected in the explorer, otherwise ask for them one after the other
+		let traceUris = uris?.length === 2 ? uris : [];
+
+		if (traceUris.length === 2) {
+			// The oldest file is the "before"
+			const times = await Promise.all(traceUris.map(u => fs.promises.stat(u.fsPath).then(s => s.mtimeMs)));
+			if (times[0] > times[1]) { traceUris = [traceUris[1], traceUris[0]]; }
+		} else {
+			const traceFilters = { "Clang time trace": ["json"] };
+			const [beforeUri] = await vscode.window.showOpenDialog({
+				canSelectMany: false,
+				openLabel: "Compare from",
+				title: "Trace before the change",
+				filters: traceFilters
+			}) ?? [];
+			if (!beforeUri) { return; }
+
+			const [afterUri] = await vscode.window.showOpenDialog({
+				canSelectMany: false,
+				openLabel: "Compare to",
+				title: "Trace after the change",
+				filters: traceFilters
+			}) ?? [];
+			if (!afterUri) { return; }
+
+			traceUris = [beforeUri, afterUri];
+		}
+
+		for (const traceUri of traceUris) {
+			if (!await isClangTraceFile(traceUri.fsPath)) {
+				vscode.window.showErrorMessage(`${path.basename(traceUri.fsPath)} is not a Clang -ftime-trace file.`);
+				return;
+			}
+		}
+
+		TraceFilePanel.createComparison(context.extensionUri, traceUris[0].fsPath, traceUris[1].fsPath);
+	});
+
+	context.subscriptions.push(compareTraces);
+
+	const selectDatabase = vscode.commands.registerCommand('clang_time_tracer.select_database', async () => {
+		const folder = (vscode.workspace.workspaceFolders?.length ?? 0) > 1
+			? await vscode.window.showWorkspaceFolderPick({ placeHolder: "Workspace folder to configure" })
+			: vscode.workspace.workspaceFolders?.[0];
+
+		if (!folder) { return; }
+
+		const activePath = db.getActiveDatabasePath(folder);
+		const items = db.getDatabasePaths(folder).map(dbPath => ({
+			label: path.relative(folder.uri.fsPath, dbPath) || dbPath,
+			description: dbPath === activePath ? "active" : undefined,
+			detail: fs.existsSync(dbPath) ? dbPath : `${dbPath} (not found)`,
+			dbPath
+		}));
+
+		const selection = await vscode.window.showQuickPick(items, {
+			placeHolder: `Compilation database for ${folder.name}`
+		});
+
+		if (selection && selection.dbPath !== activePath) {
+			await db.setActiveDatabasePath(folder, selection.dbPath);
+		}
+	});
+
+	context.subscriptions.push(selectDatabase);
+
+	const measureHeader = vscode.commands.registerCommand('clang_time_tracer.measure_header', async (uri?: vscode.Uri) => {
+		const targetUri = uri ?? vscode.window.activeTextEditor?.document.uri;
+		if (!targetUri) { return; }
+
+		// Untitled and remote documents have no file for the compiler
+		if (targetUri.scheme !== 'file') {
+			vscode.window.showWarningMessage(`${path.basename(targetUri.path)} is not a file on disk, save it first.`);
+			return;
+		}
+
+		let isFolder: boolean;
+		try {
+			isFolder = ((await vscode.workspace.fs.stat(targetUri)).type & vscode.FileType.Directory) !== 0;
+		} catch {
+			vscode.window.showWarningMessage(`${path.basename(targetUri.fsPath)} is not a file on disk, save it first.`);
+			return;
+		}
+		if (!isFolder && !isHeaderFile(targetUri.fsPath)) {
+			vscode.window.showErrorMessage(`${path.basename(targetUri.fsPath)} is not a header.`);
+			return;
+		}
+
+		const headers = isFolder ? await findHeadersInFolder(targetUri) : [targetUri.fsPath];
+
+		if (headers.length === 0) {
+			vscode.window.showWarningMessage("No header found in this folder.");
+			return;
+		}
+
+		outputChannel.clear();
+		outputChannel.show(true);
+
+		// Synthetic translation unit path -> header path
+		const units = new Map<string, string>();
+		const entries: CompileEntry[] = [];
+		for (const headerPath of headers) {
+			const sibling = await findSiblingEntry(vscode.Uri.file(headerPath), db);
+			if (!sibling) {
+				outputChannel.appendLine(`[Skipped] ${headerPath}: no compile command found to borrow the flags from`);
+				continue;
+			}
+
+			const entry = await createHeaderUnit(headerPath, sibling, scratchDir);
+			units.set(entry.file, headerPath);
+			entries.push(entry);
+		}
+
+		if (entries.length === 0) {
+			vscode.window.showErrorMessage("No compile command found near these headers in compile_commands.json");
+			return;
+		}
+
+		// Without an object file, the trace is only written with -ftime-trace=<path>
+		const version = await getCompilerMajorVersion(entries[0]);
+		if (version !== undefined && version < 16) {
+			vscode.window.showErrorMessage(`Measuring a header needs Clang 16 or later (-ftime-trace=<path>), the compiler is Clang ${version}.`);
+			return;
+		}
+
+		if (!isFolder) {
+			const [result, tracePath] = await buildEntry(entries[0], outputChannel, { scratchDir, syntaxOnly: true });
+			// A failed compilation is already reported by buildEntry
+			if (!result) { return; }
+			if (!fs.existsSync(tracePath)) {
+				outputChannel.appendLine(`[Error] Trace file not found at: ${tracePath}`);
+				vscode.window.showErrorMessage(`Unable to measure ${path.basename(targetUri.fsPath)}: no trace was written. Check Output channel.`);
+				return;
+			}
+
+			const traceResult = await collectAndMergeTrace([{ tracePath, sourcePath: targetUri.fsPath }]);
+			const stats = traceResult.files[0];
+			if (stats) {
+				const ms = (us: number) => `${(us / 1000).toFixed(1)} ms`;
+				vscode.window.showInformationMessage(`${path.basename(targetUri.fsPath)}: ${ms(stats.totalTime)} on its own (parsing ${ms(stats.sourceTime)}, instantiations ${ms(stats.templateTime)})`);
+			}
+
+			TraceFilePanel.createOrShow(context.extensionUri, tracePath, targetUri.fsPath);
+			return;
+		}
+
+		const [result, tracePaths, failures] = await buildMultipleEntries(entries, outputChannel, { scratchDir, syntaxOnly: true });
+		if (result && tracePaths.length > 0) {
+			const headerTraces = tracePaths.map(t => ({ tracePath: t.tracePath, sourcePath: units.get(t.sourcePath) ?? t.sourcePath }));
+			const headerFailures = failures.map(f => ({ ...f, sourcePath: units.get(f.sourcePath) ?? f.sourcePath }));
+
+			const traceResult = await collectAndMergeTrace(headerTraces, headerFailures);
+			await openFolderPanel(
 				traceResult,
-				path.basename(targetUri.fsPath)
+				await getAnalysisMetadata(targetUri, entries),
+				`headers of ${path.basename(targetUri.fsPath)}`
 			);
 		}
 	});
 
-	context.subscriptions.push(traceFolder);
+	context.subscriptions.push(measureHeader);
+
+	const generatePch = vscode.commands.registerCommand('clang_time_tracer.generate_pch', async () => {
+		const traceResult = lastTraceResult;
+		if (!traceResult) {
+			vscode.window.showWarningMessage("Trace or analyze a folder first, the precompiled header is made from its Header Impact list.");
+			return;
+		}
+
+		const config = vscode.workspace.getConfiguration('clangTimeTracer');
+		const plan = planPch(traceResult, {
+			minIncluders: config.get<number>('pch.minIncluders', 5),
+			minTotalTime: config.get<number>('pch.minTotalTime', 1000) * 1000,
+			excludedRoots: config.get<boolean>('pch.excludeProjectHeaders', true)
+				? (vscode.workspace.workspaceFolders ?? []).map(folder => folder.uri.fsPath)
+				: []
+		});
+
+		if (plan.headers.length === 0) {
+			vscode.window.showInformationMessage("No header reaches the clangTimeTracer.pch thresholds.");
+			return;
+		}
+
+		const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+		const targetUri = await vscode.window.showSaveDialog({
+			defaultUri: workspaceFolder ? vscode.Uri.joinPath(workspaceFolder.uri, 'pch.h') : undefined,
+			filters: { "C/C++ header": ["h", "hpp"] },
+			saveLabel: "Write precompiled header"
+		});
+		if (!targetUri) { return; }
+
+		try {
+			await fs.promises.writeFile(targetUri.fsPath, renderPchHeader(plan));
+		} catch (err) {
+			vscode.window.showErrorMessage(`Clang Time Tracer: ${err instanceof Error ? err.message : err}`);
+			return;
+		}
+		await vscode.window.showTextDocument(targetUri, { viewColumn: vscode.ViewColumn.One });
+
+		const seconds = (us: number) => `${(us / 1000000).toFixed(1)} s`;
+		const sampleSize = Math.min(config.get<number>('pch.sampleSize', 3), plan.savings.size);
+		const verify = "Verify on a sample";
+
+		const choice = await vscode.window.showInformationMessage(
+			`${path.basename(targetUri.fsPath)}: ${plan.headers.length} headers, about ${seconds(plan.totalSaving)} of parsing saved over ${plan.savings.size} files.`,
+			...(sampleSize > 0 ? [verify] : [])
+		);
+		if (choice !== verify) { return; }
+
+		outputChannel.clear();
+		outputChannel.show(true);
+
+		// Files spread over the range of estimated savings, each one with a PCH built from its own flags
+		const ranked = [...plan.savings.keys()].sort((a, b) => plan.savings.get(b)! - plan.savings.get(a)!);
+		const sample = Array.from({ length: sampleSize }, (_, i) => ranked[Math.floor(i * ranked.length / sampleSize)]);
+
+		const entries: CompileEntry[] = [];
+		await vscode.window.withProgress({
+			location: vscode.ProgressLocation.Notification,
+			title: "Building precompiled headers"
+		}, async (progress) => {
+			for (const [i, sourcePath] of sample.entries()) {
+				progress.report({ message: path.basename(sourcePath), increment: 100 / sample.length });
+
+				const [entry] = await db.getEntriesForFile(vscode.Uri.file(sourcePath));
+				if (!entry) {
+					outputChannel.appendLine(`[Skipped] ${sourcePath}: no compile command found`);
+					continue;
+				}
+
+				const pchPath = path.join(scratchDir, 'pch', `${path.parse(sourcePath).name}-${i}.pch`);
+				if (await buildPrecompiledHeader(entry, targetUri.fsPath, pchPath, outputChannel)) {
+					entries.push(createPchUserEntry(entry, pchPath));
+				} else {
+					outputChannel.appendLine(`[Skipped] ${sourcePath}: the precompiled header failed to build`);
+				}
+			}
+		});
+
+		if (entries.length === 0) {
+			vscode.window.showErrorMessage("No precompiled header could be built. Check Output channel.");
+			return;
+		}
+
+		const [, tracePaths] = await buildMultipleEntries(entries, outputChannel, { scratchDir, isolated: true });
+
+		const ms = (us: number) => `${(us / 1000).toFixed(1)} ms`;
+		const baseline = new Map(traceResult.files.map(f => [f.sourcePath, f.totalTime]));
+		let estimated = 0;
+		let measured = 0;
+		let measuredCount = 0;
+
+		for (const { tracePath, sourcePath } of tracePaths) {
+			const before = baseline.get(sourcePath);
+			if (before === undefined) { continue; }
+
+			let after: number;
+			try {
+				after = parseClangTrace(tracePath, sourcePath).file.totalTime;
+			} catch (err) {
+				outputChannel.appendLine(`[Error] ${tracePath}: ${err}`);
+				continue;
+			}
+
+			const expected = plan.savings.get(sourcePath) ?? 0;
+			estimated += expected;
+			measured += before - after;
+			measuredCount++;
+			outputChannel.appendLine(`[PCH] ${path.basename(sourcePath)}: ${ms(before)} -> ${ms(after)} (${ms(before - after)} saved, ${ms(expected)} estimated)`);
+		}
+
+		if (measuredCount > 0) {
+			vscode.window.showInformationMessage(`With the precompiled header, ${measuredCount} sampled files took ${seconds(measured)} less to compile (${seconds(estimated)} estimated).`);
+		}
+	});
+
+	context.subscriptions.push(generatePch);
+
+	const analysisFilters = { "Clang Time Tracer analysis": ["json"] };
+
+	// Saves the last folder analysis, or the one of the folder panel the command comes from
+	const saveAnalysis = vscode.commands.registerCommand('clang_time_tracer.save_analysis', async (result?: TraceResult, metadata?: AnalysisMetadata) => {
+		const traceResult = result ?? lastTraceResult;
+		if (!traceResult) {
+			vscode.window.showWarningMessage("Trace or analyze a folder first, there is no analysis to save.");
+			return;
+		}
+
+		const targetUri = await vscode.window.showSaveDialog({
+			filters: analysisFilters,
+			saveLabel: "Save analysis"
+		});
+		if (!targetUri) { return; }
+
+		try {
+			await writeAnalysis(targetUri.fsPath, traceResult, result ? metadata ?? {} : lastAnalysisMetadata);
+		} catch (err) {
+			vscode.window.showErrorMessage(`Clang Time Tracer: ${err instanceof Error ? err.message : err}`);
+			return;
+		}
+		vscode.window.setStatusBarMessage(`Analysis saved to ${path.basename(targetUri.fsPath)}`, 3000);
+	});
+
+	context.subscriptions.push(saveAnalysis);
+
+	const openAnalysis = vscode.commands.registerCommand('clang_time_tracer.open_analysis', async (uri?: vscode.Uri) => {
+		let targetUri = uri;
+
+		if (!targetUri) {
+			[targetUri] = await vscode.window.showOpenDialog({
+				canSelectMany: false,
+				openLabel: "Open analysis",
+				filters: analysisFilters
+			}) ?? [];
+		}
+
+		if (!targetUri) { return; }
+
+		try {
+			const { result, metadata } = await readAnalysis(targetUri.fsPath);
+			await showFolderAnalysis(result, metadata, path.basename(targetUri.fsPath, '.json'), targetUri.fsPath);
+		} catch (err) {
+			vscode.window.showErrorMessage(`Clang Time Tracer: ${err instanceof Error ? err.message : err}`);
+		}
+	});
+
+	context.subscriptions.push(openAnalysis);
+
+	const compareAnalysesCommand = vscode.commands.registerCommand('clang_time_tracer.compare_analyses', async () => {
+		const [beforeUri] = await vscode.window.showOpenDialog({
+			canSelectMany: false,
+			openLabel: "Compare from",
+			title: "Analysis before the change",
+			filters: analysisFilters
+		}) ?? [];
+		if (!beforeUri) { return; }
+
+		// The current folder analysis is the usual "after"
+		let afterUri: vscode.Uri | undefined;
+		if (lastTraceResult) {
+			const choice = await vscode.window.showQuickPick([
+				{ label: "Current folder analysis", current: true },
+				{ label: "Saved analysis...", current: false }
+			], { placeHolder: "Analysis after the change" });
+			if (!choice) { return; }
+
+			if (!choice.current) {
+				[afterUri] = await vscode.window.showOpenDialog({ canSelectMany: false, openLabel: "Compare to", filters: analysisFilters }) ?? [];
+				if (!afterUri) { return; }
+			}
+		} else {
+			[afterUri] = await vscode.window.showOpenDialog({
+				canSelectMany: false,
+				openLabel: "Compare to",
+				title: "Analysis after the change",
+				filters: analysisFilters
+			}) ?? [];
+			if (!afterUri) { return; }
+		}
+
+		let before: TraceResult;
+		let after: TraceResult;
+		try {
+			before = (await readAnalysis(beforeUri.fsPath)).result;
+			after = afterUri ? (await readAnalysis(afterUri.fsPath)).result : lastTraceResult!;
+		} catch (err) {
+			vscode.window.showErrorMessage(`Clang Time Tracer: ${err instanceof Error ? err.message : err}`);
+			return;
+		}
+
+		TraceComparePanel.createOrShow(
+			context.extensionUri,
+			compareAnalyses(before, after),
+			path.basename(beforeUri.fsPath, '.json'),
+			afterUri ? path.basename(afterUri.fsPath, '.json') : "current"
+		);
+	});
+
+	context.subscriptions.push(compareAnalysesCommand);
+
+	const showHistory = vscode.commands.registerCommand('clang_time_tracer.show_history', async (uri?: vscode.Uri) => {
+		await historyUpdates;
+		const tracked = listTrackedFiles(await loadHistory(historyPath));
+		if (tracked.length === 0) {
+			vscode.window.showInformationMessage("No compile time history yet. Enable clangTimeTracer.history.enabled, then trace a file or a folder.");
+			return;
+		}
+
+		// The file of the explorer or of the active editor when it is tracked, otherwise ask.
+		// A header analyzed in several folders has one history per folder.
+		const targetUri = uri ?? vscode.window.activeTextEditor?.document.uri;
+		const normalize = (filePath: string) => path.normalize(filePath).toLowerCase();
+		const matches = targetUri ? tracked.filter(file => normalize(file.path) === normalize(targetUri.fsPath)) : [];
+
+		if (matches.length === 0 && uri) {
+			vscode.window.showInformationMessage(`No compile time history for ${path.basename(uri.fsPath)}.`);
+			return;
+		}
+
+		const selected = matches.length === 1 ? matches[0] : await pickTrackedFile(matches.length > 0 ? matches : tracked);
+		if (!selected) { return; }
+
+		TraceHistoryPanel.createOrShow(context.extensionUri, selected);
+	});
+
+	context.subscriptions.push(showHistory);
 }
@@ -0,0 +1,100 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as crypto from 'crypto';
+import { CompilationDatabase, CompileEntry } from './compilationDatabase';
+import { TraceResult } from './analyzer';
+import { createSiblingEntry, getIncludeDirectories, getSourcePath } from './builder';
+import { IncludeScanner, isSuffixMatch, normalizePath } from './includes';
+
+const HEADER_EXTENSIONS = ['.h', '.hh', '.hpp', '.hxx', '.h++', '.inl', '.ipp', '.tpp', '.tcc'];
+
+export interface IncludingUnit {
+	entry: CompileEntry;
+	sourcePath: string;
+	totalTime?: number;
+}
+
+export function isHeaderFile(filePath: string): boolean {
+	return HEADER_EXTENSIONS.includes(path.extname(filePath).toLowerCase());
+}
+
+export async function findHeadersInFolder(folderUri: vscode.Uri): Promise<string[]> {
+	const pattern = `**/*{${HEADER_EXTENSIONS.join(',')}}`;
+	const uris = await vscode.workspace.findFiles(new vscode.RelativePattern(folderUri, pattern));
+	return uris.map(uri => uri.fsPath).sort((a, b) => a.localeCompare(b));
+}
+
+// Translation units known to include the header: the includedBy lists of the last folder analysis
+// first, then a scan of the #include directives of the sources of the workspace folder and of the headers they include
+export async function findIncludingUnits(headerUri: vscode.Uri, db: CompilationDatabase, lastResult?: TraceResult): Promise<IncludingUnit[]> {
+	const headerPath = normalizePath(headerUri.fsPath);
+	const units = new Map<string, IncludingUnit>();
+	const fileTimes = new Map(lastResult?.files.map(f => [normalizePath(f.sourcePath), f.totalTime]) ?? []);
+
+	// The trace paths are absolute unless the compiler was given relative include directories
+	const traced = lastResult?.cumulatedIncludes.find(inc => path.isAbsolute(inc.path)
+		? normalizePath(inc.path) === headerPath
+		: isSuffixMatch(headerPath, normalizePath(inc.path)));
+	for (const sourcePath of traced?.includedBy ?? []) {
+		const [entry] = await db.getEntriesForFile(vscode.Uri.file(sourcePath));
+		if (entry) {
+			units.set(normalizePath(sourcePath), { entry, sourcePath, totalTime: fileTimes.get(normalizePath(sourcePath)) });
+		}
+	}
+
+	if (units.size === 0) {
+		const folder = vscode.workspace.getWorkspaceFolder(headerUri);
+		const scanRoot = folder?.uri ?? vscode.Uri.file(path.dirname(headerUri.fsPath));
+		const entries = await db.getAllEntriesInFolder(scanRoot, false);
+		const scanner = new IncludeScanner(headerUri.fsPath);
+
+		await vscode.window.withProgress({
+			location: vscode.ProgressLocation.Window,
+			title: `Looking for files including ${path.basename(headerUri.fsPath)}`
+		}, async () => {
+			for (const entry of entries) {
+				const sourcePath = getSourcePath(entry);
+				if (await scanner.isIncludedBy(sourcePath, getIncludeDirectories(entry))) {
+					units.set(normalizePath(sourcePath), { entry, sourcePath, totalTime: fileTimes.get(normalizePath(sourcePath)) });
+				}
+			}
+		});
+	}
+
+	return [...units.values()].sort((a, b) => (a.totalTime ?? Infinity) - (b.totalTime ?? Infinity));
+}
+
+// Closest compile command to the header: same directory first, then the parent directories
+export async function findSiblingEntry(headerUri: vscode.Uri, db: CompilationDatabase): Promise<CompileEntry | undefined> {
+	const root = vscode.workspace.getWorkspaceFolder(headerUri)?.uri.fsPath;
+	let dir = path.dirname(headerUri.fsPath);
+
+	while (true) {
+		const entries = await db.getAllEntriesInFolder(vscode.Uri.file(dir), false);
+		if (entries.length > 0) {
+			const normalizedDir = normalizePath(dir);
+			return entries.find(e => normalizePath(path.dirname(getSourcePath(e))) === normalizedDir) ?? entries[0];
+		}
+
+		const parent = path.dirname(dir);
+		if (parent === dir || (root && normalizePath(dir) === normalizePath(root))) {
+			return undefined;
+		}
+		dir = parent;
+	}
+}
+
+// Translation unit made of the header alone, compiled with the flags of a sibling source file
+export async function createHeaderUnit(headerPath: string, sibling: CompileEntry, scratchDir: string): Promise<CompileEntry> {
+	const unitDir = path.join(scratchDir, 'headers');
+	await fs.promises.mkdir(unitDir, { recursive: true });
+
+	const hash = crypto.createHash('md5').update(headerPath).digest('hex').substring(0, 8);
+	const extension = path.extname(sibling.file) || '.cpp';
+	const unitPath = path.join(unitDir, `${path.parse(headerPath).name}-${hash}${extension}`);
+
+	await fs.promises.writeFile(unitPath, `#include "${headerPath.replace(/\\/g, '/')}"\n`);
+
+	return createSiblingEntry(sibling, unitPath);
+}
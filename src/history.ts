@@ -0,0 +1,108 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { AggregatedTraces } from './traceParser';
+
+// Compile time of the translation units and headers over the successive analyses of a workspace
+
+// 2: header points per analyzed folder
+export const HISTORY_VERSION = 2;
+
+// Points kept per file, the oldest ones go first
+const MAX_POINTS = 200;
+// Only the headers with the highest cumulative time are tracked, the others would bloat the store
+const MAX_HEADERS = 500;
+
+export type HistoryKind = 'file' | 'header';
+
+export interface HistoryPoint {
+	commit?: string;
+	// ISO 8601
+	date: string;
+	// µs: total time of a translation unit, cumulative parse time of a header
+	time: number;
+}
+
+export interface HistoryData {
+	version: number;
+	files: Record<string, HistoryPoint[]>;
+	// By analyzed folder: the cumulative time of a header depends on the units of the folder
+	headers: Record<string, Record<string, HistoryPoint[]>>;
+}
+
+export function createHistory(): HistoryData {
+	return { version: HISTORY_VERSION, files: {}, headers: {} };
+}
+
+// One point per commit: tracing the same commit again replaces its point
+function addPoint(points: HistoryPoint[], point: HistoryPoint): HistoryPoint[] {
+	const kept = point.commit ? points.filter(p => p.commit !== point.commit) : points;
+
+	return [...kept, point]
+		.sort((a, b) => a.date.localeCompare(b.date))
+		.slice(-MAX_POINTS);
+}
+
+// The headers are only recorded for a folder analysis
+export function recordAnalysis(history: HistoryData, result: Pick<AggregatedTraces, 'files' | 'cumulatedIncludes'>, date: string, commit?: string, folderPath?: string): HistoryData {
+	// Variants of a file built several times add up, as in the folder comparison
+	const fileTimes = new Map<string, number>();
+	for (const file of result.files) {
+		fileTimes.set(file.sourcePath, (fileTimes.get(file.sourcePath) ?? 0) + file.totalTime);
+	}
+
+	for (const [sourcePath, time] of fileTimes) {
+		history.files[sourcePath] = addPoint(history.files[sourcePath] ?? [], { commit, date, time });
+	}
+
+	if (!folderPath) { return history; }
+
+	const folderHeaders = history.headers[folderPath] ??= {};
+	const headers = [...result.cumulatedIncludes]
+		.sort((a, b) => b.totalTime - a.totalTime)
+		.slice(0, MAX_HEADERS);
+	for (const header of headers) {
+		folderHeaders[header.path] = addPoint(folderHeaders[header.path] ?? [], { commit, date, time: header.totalTime });
+	}
+
+	return history;
+}
+
+export interface TrackedFile {
+	path: string;
+	kind: HistoryKind;
+	// Analyzed folder of a header
+	folderPath?: string;
+	points: HistoryPoint[];
+}
+
+// Most expensive first, by their last point
+export function listTrackedFiles(history: HistoryData): TrackedFile[] {
+	const latest = (file: TrackedFile) => file.points[file.points.length - 1]?.time ?? 0;
+
+	return [
+		...Object.entries(history.files).map(([filePath, points]) => ({ path: filePath, kind: 'file' as const, points })),
+		...Object.entries(history.headers).flatMap(([folderPath, headers]) =>
+			Object.entries(headers).map(([filePath, points]) => ({ path: filePath, kind: 'header' as const, folderPath, points })))
+	].sort((a, b) => latest(b) - latest(a));
+}
+
+export async function loadHistory(filePath: string): Promise<HistoryData> {
+	try {
+		const history: Partial<HistoryData> = JSON.parse(await fs.promises.readFile(filePath, 'utf8'));
+		if (history.version === HISTORY_VERSION && history.files && history.headers) {
+			return history as HistoryData;
+		}
+		// Version 1 mixed the headers of every folder on one line, only the files are kept
+		if (history.version === 1 && history.files) {
+			return { ...createHistory(), files: history.files };
+		}
+	} catch {
+		// No history yet
+	}
+	return createHistory();
+}
+
+export async function saveHistory(filePath: string, history: HistoryData): Promise<void> {
+	await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+	await fs.promises.writeFile(filePath, JSON.stringify(history));
+}
@@ -0,0 +1,106 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// #include directives followed from a source file down to a header, without a trace. The conditionals
+// are not evaluated: a header behind an #ifdef counts as included.
+
+// Deeper include chains are cut, their files are not scanned
+const MAX_INCLUDE_DEPTH = 64;
+
+interface IncludeDirective {
+	quoted: boolean;
+	name: string;
+}
+
+export function normalizePath(filePath: string): string {
+	return filePath.replace(/\\/g, '/').toLowerCase();
+}
+
+export function isSuffixMatch(headerPath: string, included: string): boolean {
+	return headerPath === included || headerPath.endsWith('/' + included.replace(/^(\.\.?\/)+/, ''));
+}
+
+// Files are read and resolved once for all the translation units scanned for the same header
+export class IncludeScanner {
+	private readonly headerPath: string;
+	private readonly directives = new Map<string, Promise<IncludeDirective[]>>();
+	private readonly existingFiles = new Map<string, Promise<boolean>>();
+	// Files whose includes never reach the header, by include directories
+	private readonly unrelatedFiles = new Map<string, Set<string>>();
+
+	constructor(headerPath: string) {
+		this.headerPath = normalizePath(headerPath);
+	}
+
+	// Quoted includes are looked up next to the including file then in the include directories, angled ones
+	// in the include directories only. The first existing file is the included one; when none exists
+	// (generated headers, directories missing from the command), the include is matched on its path suffix.
+	public async isIncludedBy(sourcePath: string, includeDirs: string[]): Promise<boolean> {
+		const dirsKey = includeDirs.join('\0');
+		let unrelated = this.unrelatedFiles.get(dirsKey);
+		if (!unrelated) {
+			unrelated = new Set();
+			this.unrelatedFiles.set(dirsKey, unrelated);
+		}
+
+		// Visited once per unit: include guards make a second inclusion empty, and cycles stop here
+		const visited = new Set<string>();
+		let truncated = false;
+
+		const visit = async (filePath: string, depth: number): Promise<boolean> => {
+			if (visited.has(filePath) || unrelated.has(filePath)) { return false; }
+			if (depth > MAX_INCLUDE_DEPTH) {
+				truncated = true;
+				return false;
+			}
+			visited.add(filePath);
+
+			for (const directive of await this.getDirectives(filePath)) {
+				const searchDirs = directive.quoted ? [path.dirname(filePath), ...includeDirs] : includeDirs;
+				const resolved = await this.resolve(directive.name, searchDirs);
+
+				if (resolved ? normalizePath(resolved) === this.headerPath : isSuffixMatch(this.headerPath, normalizePath(directive.name))) {
+					return true;
+				}
+				if (resolved && await visit(resolved, depth + 1)) {
+					return true;
+				}
+			}
+			return false;
+		};
+
+		const found = await visit(path.resolve(sourcePath), 0);
+		// Without a cut chain, every file visited was scanned to the end
+		if (!found && !truncated) {
+			visited.forEach(filePath => unrelated.add(filePath));
+		}
+		return found;
+	}
+
+	private getDirectives(filePath: string): Promise<IncludeDirective[]> {
+		let directives = this.directives.get(filePath);
+		if (!directives) {
+			directives = fs.promises.readFile(filePath, 'utf8').then(content => {
+				const includePattern = /^\s*#\s*include\s*([<"])([^>"]+)[>"]/gm;
+				return [...content.matchAll(includePattern)].map(match => ({ quoted: match[1] === '"', name: match[2] }));
+			}, () => []);
+			this.directives.set(filePath, directives);
+		}
+		return directives;
+	}
+
+	private async resolve(name: string, searchDirs: string[]): Promise<string | undefined> {
+		for (const dir of searchDirs) {
+			const candidate = path.resolve(dir, name);
+			let exists = this.existingFiles.get(candidate);
+			if (!exists) {
+				exists = fs.promises.access(candidate).then(() => true, () => false);
+				this.existingFiles.set(candidate, exists);
+			}
+			if (await exists) {
+				return candidate;
+			}
+		}
+		return undefined;
+	}
+}
@@ -13,6 +13,17 @@ export abstract class BasePanel {
 		this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
 	}
 
+	public static getWebviewOptions(extensionUri: vscode.Uri): vscode.WebviewPanelOptions & vscode.WebviewOptions {
+		return {
+			enableScripts: true,
+			retainContextWhenHidden: true,
+			localResourceRoots: [
+				vscode.Uri.joinPath(extensionUri, 'media'),
+				vscode.Uri.joinPath(extensionUri, 'dist')
+			]
+		};
+	}
+
 	protected _getHtmlContent(htmlFileName: string, scriptFileName: string): string {
 		const webview = this._panel.webview;
 
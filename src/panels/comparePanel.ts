@@ -0,0 +1,43 @@
+import * as vscode from 'vscode';
+import { BasePanel } from './basePanel';
+import { AnalysisDiff } from '../compare';
+
+export class TraceComparePanel extends BasePanel {
+
+	public static createOrShow(extensionUri: vscode.Uri, diff: AnalysisDiff, beforeName: string, afterName: string) {
+		const panel = vscode.window.createWebviewPanel(
+			'ClangCompareAnalysis',
+			`Compare: ${beforeName} ↔ ${afterName}`,
+			vscode.ViewColumn.Two,
+			BasePanel.getWebviewOptions(extensionUri)
+		);
+
+		new TraceComparePanel(panel, extensionUri, diff, beforeName, afterName);
+	}
+
+	private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri, diff: AnalysisDiff, beforeName: string, afterName: string) {
+		super(panel, extensionUri);
+
+		this._panel.webview.html = this._getHtmlContent('compare_view.html', 'compare_view.js');
+
+		this._panel.webview.onDidReceiveMessage(message => {
+			switch (message.command) {
+				case 'openFile': {
+					const uri = vscode.Uri.file(message.path.trim());
+					vscode.workspace.openTextDocument(uri).then(doc => {
+						vscode.window.showTextDocument(doc, { viewColumn: vscode.ViewColumn.One });
+					}, () => vscode.window.showErrorMessage("Unable to open: " + message.path));
+					return;
+				}
+				case 'webviewReady':
+					this._panel.webview.postMessage({
+						command: 'initData',
+						payload: diff,
+						beforeName,
+						afterName
+					});
+					return;
+			}
+		}, null, this._disposables);
+	}
+}
@@ -3,35 +3,90 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { BasePanel } from './basePanel';
 
+// Kept in the webview state to restore the panel after a window reload
+export interface TraceFileSource {
+	tracePath?: string;
+	highlightPath?: string;
+	beforePath?: string;
+	afterPath?: string;
+}
+
 export class TraceFilePanel extends BasePanel {
 
-	public static createOrShow(extensionUri: vscode.Uri, tracePath: string) {
-		const traceData = JSON.parse(fs.readFileSync(tracePath, 'utf8'));
-		const baseTitle = `Time trace: ${path.basename(tracePath, '.json')}`;
+	public static createOrShow(extensionUri: vscode.Uri, tracePath: string, highlightPath?: string) {
+		const source: TraceFileSource = { tracePath, highlightPath };
+		const initMessage = TraceFilePanel._createInitMessage(source);
+		const panel = TraceFilePanel._createWebviewPanel(extensionUri, `Time trace: ${path.basename(tracePath, '.json')}`);
+
+		new TraceFilePanel(panel, extensionUri, initMessage);
+	}
+
+	// Both timelines on aligned tracks with the list of events that changed between them
+	public static createComparison(extensionUri: vscode.Uri, beforePath: string, afterPath: string) {
+		const source: TraceFileSource = { beforePath, afterPath };
+		const initMessage = TraceFilePanel._createInitMessage(source);
+		const panel = TraceFilePanel._createWebviewPanel(extensionUri, `Trace diff: ${path.basename(beforePath, '.json')} ↔ ${path.basename(afterPath, '.json')}`);
+
+		new TraceFilePanel(panel, extensionUri, initMessage);
+	}
+
+	// The traces are read again, the zoom and scroll come from the webview state
+	public static revive(panel: vscode.WebviewPanel, extensionUri: vscode.Uri, state: (TraceFileSource & { view?: unknown }) | undefined) {
+		panel.webview.options = BasePanel.getWebviewOptions(extensionUri);
+
+		let initMessage: any;
+		try {
+			initMessage = state && TraceFilePanel._createInitMessage(state);
+		} catch {
+			initMessage = undefined;
+		}
+
+		if (!initMessage) {
+			vscode.window.showWarningMessage(`Clang Time Tracer: unable to restore "${panel.title}", its trace files are gone.`);
+			panel.dispose();
+			return;
+		}
+
+		new TraceFilePanel(panel, extensionUri, { ...initMessage, view: state!.view });
+	}
+
+	private static _createInitMessage(source: TraceFileSource): any {
+		const readTrace = (tracePath: string) => JSON.parse(fs.readFileSync(tracePath, 'utf8'));
+
+		if (source.beforePath && source.afterPath) {
+			return {
+				command: 'initCompare',
+				before: readTrace(source.beforePath),
+				after: readTrace(source.afterPath),
+				source
+			};
+		}
 
+		if (!source.tracePath) { return undefined; }
+
+		return {
+			command: 'initData',
+			payload: readTrace(source.tracePath),
+			highlight: source.highlightPath,
+			source
+		};
+	}
+
+	private static _createWebviewPanel(extensionUri: vscode.Uri, baseTitle: string): vscode.WebviewPanel {
 		const existingTabs = vscode.window.tabGroups.all
 			.flatMap(group => group.tabs)
 			.filter(tab => tab.label.startsWith(baseTitle));
 		const finalTitle = existingTabs.length > 0 ? `${baseTitle} #${existingTabs.length + 1}` : baseTitle;
 
-		const panel = vscode.window.createWebviewPanel(
+		return vscode.window.createWebviewPanel(
 			'ClangTimeTrace',
 			finalTitle,
 			vscode.ViewColumn.Two,
-			{
-				enableScripts: true,
-				retainContextWhenHidden: true,
-				localResourceRoots: [
-					vscode.Uri.joinPath(extensionUri, 'media'),
-					vscode.Uri.joinPath(extensionUri, 'dist')
-				]
-			}
+			BasePanel.getWebviewOptions(extensionUri)
 		);
-
-		new TraceFilePanel(panel, extensionUri, traceData);
 	}
 
-	private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri, traceData: any) {
+	private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri, initMessage: any) {
 		super(panel, extensionUri);
 
 		this._panel.webview.html = this._getHtmlContent('file_view.html', 'file_view.js');
@@ -45,10 +100,7 @@ export class TraceFilePanel extends BasePanel {
 					this._handleCopyPath(message.path);
 					return;
 				case 'webviewReady':
-					this._panel.webview.postMessage({
-						command: 'initData',
-						payload: traceData
-					});
+					this._panel.webview.postMessage(initMessage);
 					return;
 			}
 		}, null, this._disposables);
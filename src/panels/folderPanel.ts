@@ -1,28 +1,46 @@
 import * as vscode from 'vscode';
 import { BasePanel } from './basePanel';
 import { TraceFilePanel } from './filePanel';
+import { TraceResult } from '../analyzer';
+import { AnalysisMetadata, readAnalysis } from '../analysisFile';
+import { findIncludeChains } from '../traceParser';
+
+// Kept in the webview state to restore the panel after a window reload
+export interface FolderPanelState {
+	analysisPath?: string;
+	// Selected tab
+	view?: string;
+}
 
 export class TraceFolderPanel extends BasePanel {
 
-	public static createOrShow(extensionUri: vscode.Uri, data: any, folderName: string) {
+	// Without an analysis file the panel is not restored after a window reload
+	public static createOrShow(extensionUri: vscode.Uri, data: TraceResult, folderName: string, metadata: AnalysisMetadata, analysisPath?: string) {
 		const panel = vscode.window.createWebviewPanel(
 			'ClangFolderAnalysis',
 			`Folder Analysis: ${folderName}`,
 			vscode.ViewColumn.Two,
-			{
-				enableScripts: true,
-				retainContextWhenHidden: true,
-				localResourceRoots: [
-					vscode.Uri.joinPath(extensionUri, 'media'),
-					vscode.Uri.joinPath(extensionUri, 'dist')
-				]
-			}
+			BasePanel.getWebviewOptions(extensionUri)
 		);
 
-		new TraceFolderPanel(panel, extensionUri, data);
+		new TraceFolderPanel(panel, extensionUri, data, metadata, { analysisPath });
 	}
 
-	private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri, data: any) {
+	public static async revive(panel: vscode.WebviewPanel, extensionUri: vscode.Uri, state: FolderPanelState | undefined) {
+		panel.webview.options = BasePanel.getWebviewOptions(extensionUri);
+
+		try {
+			if (!state?.analysisPath) { throw new Error("no analysis file"); }
+
+			const { result, metadata } = await readAnalysis(state.analysisPath);
+			new TraceFolderPanel(panel, extensionUri, result, metadata, state);
+		} catch {
+			vscode.window.showWarningMessage(`Clang Time Tracer: unable to restore "${panel.title}", its analysis file is gone.`);
+			panel.dispose();
+		}
+	}
+
+	private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri, data: TraceResult, metadata: AnalysisMetadata, state: FolderPanelState) {
 		super(panel, extensionUri);
 
 		this._panel.webview.html = this._getHtmlContent('folder_view.html', 'folder_view.js');
@@ -43,10 +61,23 @@ export class TraceFolderPanel extends BasePanel {
 					vscode.env.clipboard.writeText(message.path.trim());
 					vscode.window.setStatusBarMessage("File path copied!", 2000);
 					return;
+				case 'saveAnalysis':
+					vscode.commands.executeCommand('clang_time_tracer.save_analysis', data, metadata);
+					return;
+				case 'showIncludeChains':
+					this._panel.webview.postMessage({
+						command: 'includeChains',
+						path: message.path,
+						chains: findIncludeChains(data.includeTrees, message.path)
+					});
+					return;
 				case 'webviewReady':
+					// The include trees stay here, the webview asks for the chains of one header at a time
 					this._panel.webview.postMessage({
 						command: 'initData',
-						payload: data
+						payload: { ...data, includeTrees: [] },
+						metadata,
+						state
 					});
 					return;
 			}
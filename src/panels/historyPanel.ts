@@ -0,0 +1,39 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { BasePanel } from './basePanel';
+import { TrackedFile } from '../history';
+
+export class TraceHistoryPanel extends BasePanel {
+
+	public static createOrShow(extensionUri: vscode.Uri, file: TrackedFile) {
+		const folder = file.folderPath ? ` (${path.basename(file.folderPath)})` : '';
+		const panel = vscode.window.createWebviewPanel(
+			'ClangCompileTimeHistory',
+			`History: ${path.basename(file.path)}${folder}`,
+			vscode.ViewColumn.Two,
+			BasePanel.getWebviewOptions(extensionUri)
+		);
+
+		new TraceHistoryPanel(panel, extensionUri, file);
+	}
+
+	private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri, file: TrackedFile) {
+		super(panel, extensionUri);
+
+		this._panel.webview.html = this._getHtmlContent('history_view.html', 'history_view.js');
+
+		this._panel.webview.onDidReceiveMessage(message => {
+			switch (message.command) {
+				case 'webviewReady':
+					this._panel.webview.postMessage({
+						command: 'initData',
+						path: file.path,
+						kind: file.kind,
+						folderPath: file.folderPath,
+						points: file.points
+					});
+					return;
+			}
+		}, null, this._disposables);
+	}
+}
@@ -0,0 +1,135 @@
+import * as path from 'path';
+import { AggregatedTraces, CumulatedIncludeStats, IncludeNode, IncludeTree } from './traceParser';
+
+// Pure precompiled header selection, the command lives in extension.ts
+
+export interface PchOptions {
+	minIncluders: number;
+	// Microseconds, like the trace events
+	minTotalTime: number;
+	// Headers under these folders are left out (project headers change too often to be precompiled)
+	excludedRoots: string[];
+}
+
+export interface PchPlan {
+	headers: CumulatedIncludeStats[];
+	// Parsing time each translation unit would no longer spend, by source path
+	savings: Map<string, number>;
+	totalSaving: number;
+}
+
+function normalize(filePath: string): string {
+	return filePath.replace(/\\/g, '/');
+}
+
+function isUnder(filePath: string, root: string): boolean {
+	const file = normalize(filePath).toLowerCase();
+	const folder = normalize(root).toLowerCase().replace(/\/$/, '');
+	return file === folder || file.startsWith(folder + '/');
+}
+
+// Traces recorded on Windows keep their drive letters whatever the host
+function isAbsolutePath(filePath: string): boolean {
+	return path.isAbsolute(filePath) || /^[a-zA-Z]:[\\/]/.test(filePath);
+}
+
+export function selectPchHeaders(includes: CumulatedIncludeStats[], options: PchOptions): CumulatedIncludeStats[] {
+	return includes.filter(inc =>
+		inc.includedBy.length >= options.minIncluders &&
+		inc.totalTime >= options.minTotalTime &&
+		// Relative paths come from project include directories, they can't be written in pch.h anyway
+		isAbsolutePath(inc.path) &&
+		!options.excludedRoots.some(root => isUnder(inc.path, root))
+	);
+}
+
+// Dependencies first: a header nested in another selected header comes before it
+export function orderByInclusion(headers: string[], trees: IncludeTree[]): string[] {
+	const selected = new Set(headers.map(normalize));
+	const firstSeen = new Map<string, number>();
+	const dependencies = new Map<string, Set<string>>();
+
+	const visit = (node: IncludeNode, ancestor: string | undefined) => {
+		const key = normalize(node.path);
+		const isSelected = selected.has(key);
+
+		if (isSelected && ancestor && ancestor !== key) {
+			let deps = dependencies.get(ancestor);
+			if (!deps) {
+				deps = new Set();
+				dependencies.set(ancestor, deps);
+			}
+			deps.add(key);
+		}
+
+		node.children.forEach(child => visit(child, isSelected ? key : ancestor));
+
+		if (isSelected && !firstSeen.has(key)) {
+			firstSeen.set(key, firstSeen.size);
+		}
+	};
+
+	trees.forEach(tree => tree.roots.forEach(root => visit(root, undefined)));
+
+	const byPath = new Map(headers.map(h => [normalize(h), h]));
+	const pending = [...byPath.keys()].sort((a, b) => (firstSeen.get(a) ?? Infinity) - (firstSeen.get(b) ?? Infinity));
+	const done = new Set<string>();
+	const ordered: string[] = [];
+
+	while (pending.length > 0) {
+		// A cycle (headers without include guards) is broken by taking the first seen one
+		const index = Math.max(0, pending.findIndex(h => [...(dependencies.get(h) ?? [])].every(dep => done.has(dep))));
+		const [next] = pending.splice(index, 1);
+		done.add(next);
+		ordered.push(byPath.get(next)!);
+	}
+
+	return ordered;
+}
+
+// A translation unit saves the time of the outermost selected headers it includes, nested ones are part of it
+export function estimateSavings(headers: string[], trees: IncludeTree[]): Map<string, number> {
+	const selected = new Set(headers.map(normalize));
+	const savings = new Map<string, number>();
+
+	const visit = (node: IncludeNode): number => selected.has(normalize(node.path))
+		? node.time
+		: node.children.reduce((sum, child) => sum + visit(child), 0);
+
+	for (const tree of trees) {
+		const saving = tree.roots.reduce((sum, root) => sum + visit(root), 0);
+		if (saving > 0) {
+			savings.set(tree.sourcePath, (savings.get(tree.sourcePath) ?? 0) + saving);
+		}
+	}
+
+	return savings;
+}
+
+export function planPch(result: AggregatedTraces, options: PchOptions): PchPlan {
+	const candidates = selectPchHeaders(result.cumulatedIncludes, options);
+	const order = orderByInclusion(candidates.map(c => c.path), result.includeTrees);
+	const byPath = new Map(candidates.map(c => [c.path, c]));
+
+	const headers = order.map(p => byPath.get(p)!);
+	const savings = estimateSavings(order, result.includeTrees);
+	const totalSaving = [...savings.values()].reduce((sum, s) => sum + s, 0);
+
+	return { headers, savings, totalSaving };
+}
+
+export function renderPchHeader(plan: PchPlan): string {
+	const seconds = (us: number) => `${(us / 1000000).toFixed(1)} s`;
+	const lines = [
+		'// Precompiled header generated by Clang Time Tracer',
+		`// Estimated parsing time saved: ${seconds(plan.totalSaving)} over ${plan.savings.size} files`,
+		'#pragma once',
+		''
+	];
+
+	for (const header of plan.headers) {
+		lines.push(`#include "${normalize(header.path)}" // ${seconds(header.totalTime)} in ${header.includedBy.length} files`);
+	}
+
+	return lines.join('\n') + '\n';
+}
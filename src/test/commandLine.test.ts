@@ -0,0 +1,273 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CommandQuoting, expandResponseFiles, getTraceFilePath, removeArguments, splitCommand, splitCompileCommand, splitWindowsCommand } from '../commandLine';
+
+interface SplitCase {
+	name: string;
+	command: string;
+	quoting: CommandQuoting;
+	launchers?: string[];
+	expected: string[];
+}
+
+const cases: SplitCase[] = [
+	{
+		name: 'GNU escaped quotes in a define',
+		command: String.raw`/usr/bin/clang++ -DNAME=\"value\" -c foo.cpp`,
+		quoting: 'auto',
+		expected: ['/usr/bin/clang++', '-DNAME="value"', '-c', 'foo.cpp']
+	},
+	{
+		name: 'GNU double quoted include path with spaces',
+		command: String.raw`clang++ -I"/path with space/include" -c a.cpp`,
+		quoting: 'auto',
+		expected: ['clang++', '-I/path with space/include', '-c', 'a.cpp']
+	},
+	{
+		name: 'GNU single quoted argument',
+		command: String.raw`clang++ '-DMSG=hello world' -c a.cpp`,
+		quoting: 'auto',
+		expected: ['clang++', '-DMSG=hello world', '-c', 'a.cpp']
+	},
+	{
+		name: 'GNU unquoted Windows path keeps its backslashes',
+		command: String.raw`clang++.exe -c C:\src\a.cpp -o C:\build\a.o`,
+		quoting: 'auto',
+		expected: ['clang++.exe', '-c', String.raw`C:\src\a.cpp`, '-o', String.raw`C:\build\a.o`]
+	},
+	{
+		name: 'clang-cl quoted executable and /Fo',
+		command: String.raw`"C:\Program Files\LLVM\bin\clang-cl.exe" /nologo /Fo"obj\a.obj" -c C:\src\a.cpp`,
+		quoting: 'auto',
+		expected: [String.raw`C:\Program Files\LLVM\bin\clang-cl.exe`, '/nologo', String.raw`/Foobj\a.obj`, '-c', String.raw`C:\src\a.cpp`]
+	},
+	{
+		name: 'clang-cl quoted directory with trailing backslash',
+		command: String.raw`clang-cl.exe /I"C:\foo\\" /c a.cpp`,
+		quoting: 'auto',
+		expected: ['clang-cl.exe', '/IC:\\foo\\', '/c', 'a.cpp']
+	},
+	{
+		name: 'clang-cl escaped quote after backslashes',
+		command: String.raw`clang-cl.exe C:\foo\"bar" /c`,
+		quoting: 'auto',
+		expected: ['clang-cl.exe', String.raw`C:\foo"bar /c`]
+	},
+	{
+		name: 'clang-cl escaped quotes in a define',
+		command: String.raw`clang-cl.exe -DSTR=\"x\" /c a.cpp`,
+		quoting: 'auto',
+		expected: ['clang-cl.exe', '-DSTR="x"', '/c', 'a.cpp']
+	},
+	{
+		name: 'clang-cl doubled quotes inside a quoted argument',
+		command: String.raw`clang-cl.exe "/DNAME=""quoted""" /c a.cpp`,
+		quoting: 'auto',
+		expected: ['clang-cl.exe', '/DNAME="quoted"', '/c', 'a.cpp']
+	},
+	{
+		name: 'clang-cl single quotes are not quotes',
+		command: String.raw`clang-cl.exe '/DA B' /c`,
+		quoting: 'auto',
+		expected: ['clang-cl.exe', `'/DA`, `B'`, '/c']
+	},
+	{
+		name: '--driver-mode=cl selects Windows rules',
+		command: String.raw`clang.exe --driver-mode=cl /I"C:\inc\\" /c a.cpp`,
+		quoting: 'auto',
+		expected: ['clang.exe', '--driver-mode=cl', '/IC:\\inc\\', '/c', 'a.cpp']
+	},
+	{
+		name: 'forced GNU rules on a clang-cl command',
+		command: String.raw`clang-cl.exe '/DA B' /c`,
+		quoting: 'gnu',
+		expected: ['clang-cl.exe', '/DA B', '/c']
+	},
+	{
+		name: 'forced Windows rules on a clang command',
+		command: String.raw`clang++ -I"C:\inc\\" -c a.cpp`,
+		quoting: 'windows',
+		expected: ['clang++', '-IC:\\inc\\', '-c', 'a.cpp']
+	},
+	{
+		name: 'empty quoted argument is kept with Windows rules',
+		command: String.raw`clang-cl.exe "" /c`,
+		quoting: 'auto',
+		expected: ['clang-cl.exe', '', '/c']
+	},
+	{
+		name: 'launcher before clang-cl selects Windows rules',
+		command: String.raw`sccache clang-cl /Fo"obj\a.obj" C:\foo\"bar" /c`,
+		quoting: 'auto',
+		launchers: ['ccache', 'sccache'],
+		expected: ['sccache', 'clang-cl', String.raw`/Foobj\a.obj`, String.raw`C:\foo"bar /c`]
+	},
+	{
+		name: 'launcher path before quoted clang-cl executable',
+		command: String.raw`C:\tools\ccache.exe "C:\Program Files\LLVM\bin\clang-cl.exe" /I"C:\foo\\" /c a.cpp`,
+		quoting: 'auto',
+		launchers: ['ccache', 'sccache'],
+		expected: [String.raw`C:\tools\ccache.exe`, String.raw`C:\Program Files\LLVM\bin\clang-cl.exe`, '/IC:\\foo\\', '/c', 'a.cpp']
+	},
+	{
+		name: 'launcher before clang keeps GNU rules',
+		command: String.raw`ccache clang++ -DNAME=\"value\" -c foo.cpp`,
+		quoting: 'auto',
+		launchers: ['ccache', 'sccache'],
+		expected: ['ccache', 'clang++', '-DNAME="value"', '-c', 'foo.cpp']
+	}
+];
+
+suite('Command Line Splitting', () => {
+	for (const c of cases) {
+		test(c.name, () => {
+			assert.deepStrictEqual(splitCompileCommand(c.command, c.quoting, c.launchers), c.expected);
+		});
+	}
+});
+
+interface RemoveCase {
+	name: string;
+	args: string[];
+	patterns: string[];
+	isClangCl?: boolean;
+	expected: string[];
+}
+
+const removeCases: RemoveCase[] = [
+	{
+		name: 'single token flag',
+		args: ['-c', '-Werror', 'a.cpp'],
+		patterns: ['-Werror'],
+		expected: ['-c', 'a.cpp']
+	},
+	{
+		name: 'prefix pattern',
+		args: ['-Wall', '-Wextra', '-O2'],
+		patterns: ['-W*'],
+		expected: ['-O2']
+	},
+	{
+		name: 'two-token flag takes its value along',
+		args: ['-include', 'pch.h', '-c', 'a.cpp'],
+		patterns: ['-include'],
+		expected: ['-c', 'a.cpp']
+	},
+	{
+		name: 'forwarded argument takes its forwarding flag along',
+		args: ['-Xclang', '-fno-pch-timestamp', '-Xclang', '-fcolor-diagnostics', '-c'],
+		patterns: ['-fno-pch-timestamp'],
+		expected: ['-Xclang', '-fcolor-diagnostics', '-c']
+	},
+	{
+		name: 'value of a two-token flag is not matched on its own',
+		args: ['-o', '-Wfoo.o', '-Wall'],
+		patterns: ['-W*'],
+		expected: ['-o', '-Wfoo.o']
+	},
+	{
+		name: 'clang-cl /clang: spelling',
+		args: ['/clang:-include', '/clang:pch.h', '/clang:-Werror', '/c'],
+		patterns: ['-include', '-Werror'],
+		isClangCl: true,
+		expected: ['/c']
+	}
+];
+
+suite('Argument Removal', () => {
+	for (const c of removeCases) {
+		test(c.name, () => {
+			assert.deepStrictEqual(removeArguments(c.args, c.patterns, c.isClangCl ?? false), c.expected);
+		});
+	}
+});
+
+interface TracePathCase {
+	name: string;
+	args: string[];
+	expected: string;
+}
+
+const tracePathCases: TracePathCase[] = [
+	{ name: 'next to the object', args: ['-c', 'a.cpp', '-o', 'obj/a.cpp.o'], expected: '/build/obj/a.cpp.json' },
+	{ name: 'explicit trace file', args: ['-ftime-trace=/traces/a.json', '-o', 'obj/a.cpp.o'], expected: '/traces/a.json' },
+	{ name: 'trace directory', args: ['-ftime-trace=traces', '-o', 'obj/a.cpp.o'], expected: '/build/traces/a.cpp.json' },
+	{ name: 'trace directory for clang-cl', args: ['/clang:-ftime-trace=/traces/', '/Foobj/a.obj'], expected: '/traces/a.json' },
+	{ name: 'without an object', args: ['-ftime-trace', '-c', 'src/a.cpp'], expected: '/build/a.json' }
+];
+
+suite('Trace File Path', () => {
+	for (const c of tracePathCases) {
+		test(c.name, () => {
+			assert.strictEqual(getTraceFilePath(c.args, 'src/a.cpp', '/build'), c.expected);
+		});
+	}
+});
+
+interface ResponseFileCase {
+	name: string;
+	files: Record<string, string>;
+	args: string[];
+	tokenize: (content: string) => string[];
+	expected: string[];
+}
+
+const responseFileCases: ResponseFileCase[] = [
+	{
+		name: 'GNU quoting in a response file',
+		files: { 'args.rsp': String.raw`-I"/path with space" '-DMSG=hello world' -DNAME=\"x\"` },
+		args: ['clang++', '@args.rsp', '-c', 'a.cpp'],
+		tokenize: splitCommand,
+		expected: ['clang++', '-I/path with space', '-DMSG=hello world', '-DNAME="x"', '-c', 'a.cpp']
+	},
+	{
+		name: 'Windows quoting in a response file',
+		files: { 'args.rsp': '\uFEFF' + String.raw`/I"C:\foo\\" "/DNAME=""q""" /c` },
+		args: ['clang-cl.exe', '@args.rsp'],
+		tokenize: splitWindowsCommand,
+		expected: ['clang-cl.exe', '/IC:\\foo\\', '/DNAME="q"', '/c']
+	},
+	{
+		name: 'nested response file relative to the including one',
+		files: {
+			'rsp/outer.rsp': '-DOUTER @inner.rsp',
+			'rsp/inner.rsp': '-DINNER'
+		},
+		args: ['clang++', '@rsp/outer.rsp', 'a.cpp'],
+		tokenize: splitCommand,
+		expected: ['clang++', '-DOUTER', '-DINNER', 'a.cpp']
+	},
+	{
+		name: 'missing response file is left to the compiler',
+		files: {},
+		args: ['clang++', '@missing.rsp', 'a.cpp'],
+		tokenize: splitCommand,
+		expected: ['clang++', '@missing.rsp', 'a.cpp']
+	},
+	{
+		name: 'self-including response file stops at the depth limit',
+		files: { 'loop.rsp': '-DLOOP @loop.rsp' },
+		args: ['@loop.rsp'],
+		tokenize: splitCommand,
+		expected: [...Array(16).fill('-DLOOP'), '@loop.rsp']
+	}
+];
+
+suite('Response Files', () => {
+	for (const c of responseFileCases) {
+		test(c.name, () => {
+			const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ctt-rsp-'));
+			try {
+				for (const [name, content] of Object.entries(c.files)) {
+					fs.mkdirSync(path.dirname(path.join(dir, name)), { recursive: true });
+					fs.writeFileSync(path.join(dir, name), content);
+				}
+				assert.deepStrictEqual(expandResponseFiles(c.args, dir, c.tokenize), c.expected);
+			} finally {
+				fs.rmSync(dir, { recursive: true, force: true });
+			}
+		});
+	}
+});
@@ -0,0 +1,53 @@
+import * as assert from 'assert';
+import { compareAnalyses } from '../compare';
+import { AggregatedTraces, FileStats } from '../traceParser';
+
+function fileStats(sourcePath: string, totalTime: number): FileStats {
+	return { tracePath: `${sourcePath}.json`, sourcePath, totalTime, sourceTime: 0, templateTime: 0, optimTime: 0, totals: {}, phases: {} };
+}
+
+function analysis(files: FileStats[], headers: [string, number, number][]): AggregatedTraces {
+	return {
+		files,
+		includes: headers.map(([path, maxTime]) => ({ path, maxTime, count: 1, includedBy: [] })),
+		cumulatedIncludes: headers.map(([path, , totalTime]) => ({ path, totalTime, count: 1, includedBy: [] })),
+		rebuildCosts: [],
+		includeTrees: [],
+		templates: [],
+		backend: []
+	};
+}
+
+suite('Analysis Comparison', () => {
+	test('Sorts regressions first and flags new and removed headers', () => {
+		const before = analysis(
+			[fileStats('/src/a.cpp', 100000), fileStats('/src/b.cpp', 50000), fileStats('/src/b.cpp', 30000), fileStats('/src/old.cpp', 20000)],
+			[['/inc/windows.h', 40000, 120000], ['/inc/common.h', 5000, 20000]]
+		);
+		const after = analysis(
+			[fileStats('/src/a.cpp', 60000), fileStats('/src/b.cpp', 90000), fileStats('/src/new.cpp', 10000)],
+			[['/inc/common.h', 5500, 22000], ['/inc/lean.h', 2000, 4000]]
+		);
+
+		const diff = compareAnalyses(before, after);
+
+		assert.strictEqual(diff.totalBefore, 200000);
+		assert.strictEqual(diff.totalAfter, 160000);
+		assert.deepStrictEqual(diff.files.map(d => [d.path, d.delta, d.status]), [
+			['/src/b.cpp', 10000, 'slower'],
+			['/src/new.cpp', 10000, 'added'],
+			['/src/old.cpp', -20000, 'removed'],
+			['/src/a.cpp', -40000, 'faster']
+		]);
+		assert.deepStrictEqual(diff.includes.map(d => [d.path, d.status]), [
+			['/inc/lean.h', 'added'],
+			['/inc/common.h', 'unchanged'],
+			['/inc/windows.h', 'removed']
+		]);
+		assert.deepStrictEqual(diff.cumulatedIncludes.map(d => [d.path, d.before, d.after]), [
+			['/inc/lean.h', 0, 4000],
+			['/inc/common.h', 20000, 22000],
+			['/inc/windows.h', 120000, 0]
+		]);
+	});
+});
@@ -0,0 +1,46 @@
+import * as assert from 'assert';
+import { createHistory, listTrackedFiles, recordAnalysis } from '../history';
+import { FileStats } from '../traceParser';
+
+function fileStats(sourcePath: string, totalTime: number): FileStats {
+	return { tracePath: `${sourcePath}.json`, sourcePath, totalTime, sourceTime: 0, templateTime: 0, optimTime: 0, totals: {}, phases: {} };
+}
+
+function header(path: string, totalTime: number) {
+	return { path, totalTime, count: 1, includedBy: [] };
+}
+
+suite('Compile Time History', () => {
+	test('Adds up the variants of a file and keeps one point per commit', () => {
+		const history = createHistory();
+
+		recordAnalysis(history, { files: [fileStats('/src/a.cpp', 100), fileStats('/src/a.cpp', 50)], cumulatedIncludes: [header('/inc/a.h', 30)] }, '2026-10-01T10:00:00.000Z', 'aaa', '/src');
+		recordAnalysis(history, { files: [fileStats('/src/a.cpp', 200)], cumulatedIncludes: [header('/inc/a.h', 40)] }, '2026-10-02T10:00:00.000Z', 'bbb', '/src');
+		// Same commit traced again
+		recordAnalysis(history, { files: [fileStats('/src/a.cpp', 180)], cumulatedIncludes: [] }, '2026-10-03T10:00:00.000Z', 'bbb', '/src');
+
+		assert.deepStrictEqual(history.files['/src/a.cpp'].map(p => [p.commit, p.time]), [['aaa', 150], ['bbb', 180]]);
+		assert.deepStrictEqual(history.headers['/src']['/inc/a.h'].map(p => [p.commit, p.time]), [['aaa', 30], ['bbb', 40]]);
+	});
+
+	test('Keeps the header points of each analyzed folder apart', () => {
+		const history = createHistory();
+
+		recordAnalysis(history, { files: [fileStats('/src/app/a.cpp', 100)], cumulatedIncludes: [header('/inc/a.h', 30)] }, '2026-10-01T10:00:00.000Z', 'aaa', '/src/app');
+		recordAnalysis(history, { files: [fileStats('/src/lib/b.cpp', 100)], cumulatedIncludes: [header('/inc/a.h', 900)] }, '2026-10-01T11:00:00.000Z', 'aaa', '/src/lib');
+		// A single traced file has no header points
+		recordAnalysis(history, { files: [fileStats('/src/app/a.cpp', 100)], cumulatedIncludes: [header('/inc/a.h', 5)] }, '2026-10-01T12:00:00.000Z', 'aaa');
+
+		const headers = listTrackedFiles(history).filter(file => file.kind === 'header');
+		assert.deepStrictEqual(headers.map(h => [h.folderPath, h.points.map(p => p.time)]), [['/src/lib', [900]], ['/src/app', [30]]]);
+	});
+
+	test('Appends the points recorded outside of a git repository', () => {
+		const history = createHistory();
+
+		recordAnalysis(history, { files: [fileStats('/src/a.cpp', 100)], cumulatedIncludes: [] }, '2026-10-02T10:00:00.000Z');
+		recordAnalysis(history, { files: [fileStats('/src/a.cpp', 120)], cumulatedIncludes: [] }, '2026-10-01T10:00:00.000Z');
+
+		assert.deepStrictEqual(history.files['/src/a.cpp'].map(p => p.time), [120, 100]);
+	});
+});
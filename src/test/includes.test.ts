@@ -0,0 +1,48 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { IncludeScanner } from '../includes';
+
+suite('Include Scanner', () => {
+	let dir: string;
+
+	const writeFile = (name: string, content: string) => {
+		const filePath = path.join(dir, name);
+		fs.mkdirSync(path.dirname(filePath), { recursive: true });
+		fs.writeFileSync(filePath, content);
+		return filePath;
+	};
+
+	suiteSetup(() => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), 'clang-time-tracer-'));
+
+		writeFile('src/main.cpp', '#include "app.h"\nint main() {}\n');
+		writeFile('src/other.cpp', '#include <vector>\n');
+		writeFile('src/app.h', '#pragma once\n#include <lib/util.h>\n');
+		// Included back by the header it includes
+		writeFile('include/lib/util.h', '#pragma once\n#include "../../src/app.h"\n#include "detail.h"\n');
+		writeFile('include/lib/detail.h', '#pragma once\n');
+		writeFile('other/lib/detail.h', '#pragma once\n');
+	});
+
+	suiteTeardown(() => {
+		fs.rmSync(dir, { recursive: true, force: true });
+	});
+
+	test('Finds a header reached through another header', async () => {
+		const includeDirs = [path.join(dir, 'include')];
+		const scanner = new IncludeScanner(path.join(dir, 'include/lib/detail.h'));
+
+		assert.strictEqual(await scanner.isIncludedBy(path.join(dir, 'src/main.cpp'), includeDirs), true);
+		assert.strictEqual(await scanner.isIncludedBy(path.join(dir, 'src/other.cpp'), includeDirs), false);
+		// Without the include directory, lib/util.h is not found and its includes are unknown
+		assert.strictEqual(await scanner.isIncludedBy(path.join(dir, 'src/main.cpp'), []), false);
+	});
+
+	test('Tells apart headers with the same name in other directories', async () => {
+		const scanner = new IncludeScanner(path.join(dir, 'other/lib/detail.h'));
+
+		assert.strictEqual(await scanner.isIncludedBy(path.join(dir, 'src/main.cpp'), [path.join(dir, 'include')]), false);
+	});
+});
@@ -0,0 +1,78 @@
+import * as assert from 'assert';
+import { estimateSavings, orderByInclusion, planPch, renderPchHeader, selectPchHeaders } from '../pch';
+import { AggregatedTraces, IncludeNode } from '../traceParser';
+
+function node(path: string, time: number, children: IncludeNode[] = []): IncludeNode {
+	return { path, time, children };
+}
+
+function cumulated(path: string, totalTime: number, includedBy: string[]) {
+	return { path, totalTime, count: includedBy.length, includedBy };
+}
+
+const trees = [
+	{
+		sourcePath: '/src/a.cpp',
+		roots: [
+			node('/usr/include/map', 500, [node('/usr/include/tree.h', 300)]),
+			node('/work/app/app.h', 100, [node('/usr/include/string', 200)])
+		]
+	},
+	{
+		sourcePath: '/src/b.cpp',
+		roots: [
+			node('/usr/include/string', 150),
+			node('/usr/include/tree.h', 250)
+		]
+	}
+];
+
+suite('Precompiled Header', () => {
+	test('Selects the headers over the thresholds', () => {
+		const includes = [
+			cumulated('/usr/include/map', 5000, ['/src/a.cpp', '/src/b.cpp', '/src/c.cpp']),
+			cumulated('/usr/include/rare.h', 9000, ['/src/a.cpp']),
+			cumulated('/usr/include/cheap.h', 10, ['/src/a.cpp', '/src/b.cpp', '/src/c.cpp']),
+			cumulated('/work/app/app.h', 8000, ['/src/a.cpp', '/src/b.cpp', '/src/c.cpp']),
+			cumulated('../include/local.h', 8000, ['/src/a.cpp', '/src/b.cpp', '/src/c.cpp']),
+			cumulated('C:\\SDK\\windows.h', 8000, ['/src/a.cpp', '/src/b.cpp', '/src/c.cpp'])
+		];
+
+		const selected = selectPchHeaders(includes, { minIncluders: 2, minTotalTime: 100, excludedRoots: ['/work/app'] });
+
+		assert.deepStrictEqual(selected.map(s => s.path), ['/usr/include/map', 'C:\\SDK\\windows.h']);
+	});
+
+	test('Orders the headers after the ones they include', () => {
+		const order = orderByInclusion(['/usr/include/map', '/usr/include/string', '/usr/include/tree.h'], trees);
+
+		assert.deepStrictEqual(order, ['/usr/include/tree.h', '/usr/include/map', '/usr/include/string']);
+	});
+
+	test('Counts only the outermost selected header of each chain', () => {
+		const savings = estimateSavings(['/usr/include/map', '/usr/include/tree.h', '/usr/include/string'], trees);
+
+		assert.deepStrictEqual([...savings.entries()], [['/src/a.cpp', 700], ['/src/b.cpp', 400]]);
+	});
+
+	test('Writes the planned headers', () => {
+		const result: AggregatedTraces = {
+			files: [],
+			includes: [],
+			cumulatedIncludes: [
+				cumulated('/usr/include/map', 500, ['/src/a.cpp', '/src/b.cpp']),
+				cumulated('/usr/include/tree.h', 550, ['/src/a.cpp', '/src/b.cpp'])
+			],
+			rebuildCosts: [],
+			includeTrees: trees,
+			templates: [],
+			backend: []
+		};
+
+		const plan = planPch(result, { minIncluders: 2, minTotalTime: 0, excludedRoots: [] });
+		assert.strictEqual(plan.totalSaving, 750);
+
+		const lines = renderPchHeader(plan).split('\n');
+		assert.deepStrictEqual(lines.filter(l => l.startsWith('#include')).map(l => l.split(' ')[1]), ['"/usr/include/tree.h"', '"/usr/include/map"']);
+	});
+});
@@ -0,0 +1,256 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { planPch } from '../pch';
+import { TraceAggregator, TraceSummary, findIncludeChains, packIncludeTrees, parseClangTrace, stripTemplateArguments, unpackIncludeTrees } from '../traceParser';
+
+function sourceEvents(detail: string, start: number, dur: number) {
+	return [
+		{ ph: 'b', cat: 'Source', name: 'Source', ts: start, tid: 1, args: { detail } },
+		{ ph: 'e', cat: 'Source', name: 'Source', ts: start + dur, tid: 1 }
+	];
+}
+
+function writeTrace(dir: string, name: string, events: any[]): string {
+	const tracePath = path.join(dir, `${name}.json`);
+	fs.writeFileSync(tracePath, JSON.stringify({ traceEvents: events }));
+	return tracePath;
+}
+
+// Synthetic summary of a unit including the same headers as all the others, as with a common framework
+function makeSummary(unit: number, includeCount: number): TraceSummary {
+	const includes = [];
+	for (let i = 0; i < includeCount; i++) {
+		includes.push({ path: `/inc/header_${i}.h`, count: 1, maxTime: i + 1, totalTime: i + 1 });
+	}
+
+	return {
+		file: { tracePath: `/traces/${unit}.json`, sourcePath: `/src/${unit}.cpp`, totalTime: unit, sourceTime: 0, templateTime: 0, optimTime: 0, totals: {}, phases: {} },
+		includes,
+		includeTree: [],
+		templates: [],
+		backend: []
+	};
+}
+
+// Median of several runs, a single slow run (GC, another process) does not move it
+function timeAggregation(summaries: TraceSummary[]): number {
+	const times: number[] = [];
+	for (let run = 0; run < 5; run++) {
+		const start = process.hrtime.bigint();
+		const aggregator = new TraceAggregator();
+		summaries.forEach(s => aggregator.add(s));
+		aggregator.result();
+		times.push(Number(process.hrtime.bigint() - start));
+	}
+	return times.sort((a, b) => a - b)[2];
+}
+
+suite('Trace Parser', () => {
+	let fixtureDir: string;
+
+	suiteSetup(() => {
+		fixtureDir = fs.mkdtempSync(path.join(os.tmpdir(), 'clang-time-tracer-'));
+	});
+
+	suiteTeardown(() => {
+		fs.rmSync(fixtureDir, { recursive: true, force: true });
+	});
+
+	test('Merges Source events of several traces', () => {
+		const first = writeTrace(fixtureDir, 'a', [
+			...sourceEvents('/inc/common.h', 0, 100),
+			...sourceEvents('/inc/a.h', 100, 50),
+			...sourceEvents('/inc/common.h', 200, 30),
+			{ ph: 'X', name: 'Total ExecuteCompiler', ts: 0, dur: 1000, tid: 1 },
+			{ ph: 'X', name: 'Total InstantiateFunction', ts: 0, dur: 200, tid: 1 },
+			{ ph: 'X', name: 'InstantiateClass', ts: 300, dur: 40, tid: 1, args: { detail: 'std::vector<int>' } },
+			{ ph: 'X', name: 'InstantiateClass', ts: 340, dur: 60, tid: 1, args: { detail: 'std::vector<float>' } },
+			{ ph: 'X', name: 'CodeGen Function', ts: 500, dur: 10, tid: 1, args: { detail: 'Vec::length' } },
+			{ ph: 'X', name: 'OptFunction', ts: 600, dur: 70, tid: 1, args: { detail: '_ZN3Vec6lengthEv' } },
+			{ ph: 'X', name: 'RunPass', ts: 600, dur: 20, tid: 1, args: { detail: 'InstCombinePass' } }
+		]);
+		const second = writeTrace(fixtureDir, 'b', [
+			...sourceEvents('/inc/common.h', 0, 300),
+			{ ph: 'X', name: 'InstantiateFunction', ts: 300, dur: 500, tid: 1, args: { detail: 'std::vector<char>' } },
+			{ ph: 'X', name: 'OptFunction', ts: 900, dur: 30, tid: 1, args: { detail: '_ZN3Vec6lengthEv' } },
+			{ ph: 'X', name: 'RunPass', ts: 900, dur: 15, tid: 1, args: { detail: 'InstCombinePass' } },
+			{ ph: 'X', name: 'RunPass', ts: 950, dur: 5, tid: 1, args: { detail: 'InstCombinePass' } },
+			{ ph: 'X', name: 'Total ExecuteCompiler', ts: 0, dur: 2000, tid: 1 }
+		]);
+
+		const aggregator = new TraceAggregator();
+		aggregator.add(parseClangTrace(first, '/src/a.cpp'));
+		aggregator.add(parseClangTrace(second, '/src/b.cpp'));
+		const result = aggregator.result();
+
+		assert.deepStrictEqual(result.files.map(f => [f.sourcePath, f.totalTime]), [['/src/b.cpp', 2000], ['/src/a.cpp', 1000]]);
+		assert.strictEqual(result.files[1].templateTime, 200);
+		assert.strictEqual(result.files[1].sourceTime, 230);
+		assert.deepStrictEqual(result.files[1].totals, { 'ExecuteCompiler': 1000, 'InstantiateFunction': 200 });
+
+		const common = result.includes.find(i => i.path === '/inc/common.h')!;
+		assert.strictEqual(common.maxTime, 300);
+		assert.strictEqual(common.count, 3);
+		assert.deepStrictEqual(common.includedBy, ['/src/a.cpp', '/src/b.cpp']);
+
+		const cumulated = result.cumulatedIncludes.find(i => i.path === '/inc/common.h')!;
+		assert.strictEqual(cumulated.totalTime, 430);
+		assert.deepStrictEqual(result.cumulatedIncludes.map(i => i.path), ['/inc/common.h', '/inc/a.h']);
+
+		assert.deepStrictEqual(result.rebuildCosts.map(r => [r.path, r.rebuildTime, r.unitCount]), [['/inc/common.h', 3000, 2], ['/inc/a.h', 1000, 1]]);
+
+		assert.strictEqual(result.templates.length, 1);
+		assert.strictEqual(result.templates[0].name, 'std::vector');
+		assert.strictEqual(result.templates[0].totalTime, 600);
+		assert.strictEqual(result.templates[0].count, 3);
+		assert.strictEqual(result.templates[0].unitCount, 2);
+		assert.deepStrictEqual(result.templates[0].topUnits, [{ sourcePath: '/src/b.cpp', time: 500 }, { sourcePath: '/src/a.cpp', time: 100 }]);
+
+		assert.deepStrictEqual(result.backend.map(b => [b.kind, b.name, b.totalTime, b.count, b.unitCount]), [
+			['OptFunction', '_ZN3Vec6lengthEv', 100, 2, 2],
+			['RunPass', 'InstCombinePass', 40, 3, 2],
+			['CodeGen Function', 'Vec::length', 10, 1, 1]
+		]);
+	});
+
+	test('Reconstructs include chains', () => {
+		const begin = (detail: string, ts: number) => ({ ph: 'b', cat: 'Source', name: 'Source', ts, tid: 1, args: { detail } });
+		const end = (ts: number) => ({ ph: 'e', cat: 'Source', name: 'Source', ts, tid: 1 });
+
+		const first = writeTrace(fixtureDir, 'chains-a', [
+			begin('/inc/app.h', 0),
+			begin('/inc/engine.h', 10),
+			begin('/inc/windows.h', 20),
+			end(420),
+			end(450),
+			end(500),
+			...sourceEvents('/inc/util.h', 500, 40)
+		]);
+		const second = writeTrace(fixtureDir, 'chains-b', [
+			begin('/inc/platform.h', 0),
+			...sourceEvents('C:\\inc\\windows.h', 5, 100),
+			end(200)
+		]);
+
+		const aggregator = new TraceAggregator();
+		aggregator.add(parseClangTrace(first, '/src/a.cpp'));
+		aggregator.add(parseClangTrace(second, '/src/b.cpp'));
+		const result = aggregator.result();
+
+		assert.deepStrictEqual(result.includeTrees[0].roots.map(r => [r.path, r.time, r.children.length]), [['/inc/app.h', 500, 1], ['/inc/util.h', 40, 0]]);
+
+		assert.deepStrictEqual(findIncludeChains(result.includeTrees, '/inc/windows.h'), [{
+			sourcePath: '/src/a.cpp',
+			steps: [{ path: '/inc/app.h', time: 500 }, { path: '/inc/engine.h', time: 440 }, { path: '/inc/windows.h', time: 400 }]
+		}]);
+		assert.deepStrictEqual(findIncludeChains(result.includeTrees, 'C:/inc/windows.h').map(c => c.steps.map(s => s.path)), [['/inc/platform.h', 'C:\\inc\\windows.h']]);
+		assert.deepStrictEqual(findIncludeChains(result.includeTrees, '/inc/missing.h'), []);
+	});
+
+	test('Keeps the include chains of the cheapest headers', () => {
+		const aggregator = new TraceAggregator();
+		for (let unit = 0; unit < 5; unit++) {
+			// 250 project headers, all more expensive than the system one
+			const headers = Array.from({ length: 250 }, (_, i) => ({ path: `/work/inc/header_${i}.h`, time: 1000 + i }));
+			headers.push({ path: '/usr/include/cheap.h', time: 100 });
+
+			aggregator.add({
+				file: { tracePath: `/traces/${unit}.json`, sourcePath: `/work/src/${unit}.cpp`, totalTime: 1000000, sourceTime: 0, templateTime: 0, optimTime: 0, totals: {}, phases: {} },
+				includes: headers.map(h => ({ path: h.path, count: 1, maxTime: h.time, totalTime: h.time })),
+				includeTree: [{ path: '/work/inc/app.h', time: 300000, children: headers.map(h => ({ ...h, children: [] })) }],
+				templates: [],
+				backend: []
+			});
+		}
+		const result = aggregator.result();
+
+		assert.strictEqual(result.cumulatedIncludes.findIndex(inc => inc.path === '/usr/include/cheap.h'), 250);
+		assert.strictEqual(findIncludeChains(result.includeTrees, '/usr/include/cheap.h').length, 5);
+
+		const plan = planPch(result, { minIncluders: 5, minTotalTime: 0, excludedRoots: ['/work'] });
+		assert.deepStrictEqual(plan.headers.map(h => h.path), ['/usr/include/cheap.h']);
+		assert.strictEqual(plan.totalSaving, 500);
+	});
+
+	test('Packs the include trees without losing a node', () => {
+		const trees = [
+			{ sourcePath: '/src/a.cpp', roots: [{ path: '/inc/app.h', time: 50, children: [{ path: '/inc/util.h', time: 10, children: [] }] }] },
+			{ sourcePath: '/src/b.cpp', roots: [{ path: '/inc/util.h', time: 20, children: [] }] }
+		];
+
+		const packed = packIncludeTrees(trees);
+
+		assert.deepStrictEqual(packed.paths, ['/src/a.cpp', '/inc/app.h', '/inc/util.h', '/src/b.cpp']);
+		assert.deepStrictEqual(unpackIncludeTrees(JSON.parse(JSON.stringify(packed))), trees);
+	});
+
+	test('Splits the compilation time in phases', () => {
+		const tracePath = writeTrace(fixtureDir, 'phases', [
+			...sourceEvents('/inc/a.h', 0, 300),
+			{ ph: 'X', name: 'Total ExecuteCompiler', ts: 0, dur: 2000, tid: 1 },
+			{ ph: 'X', name: 'Total Frontend', ts: 0, dur: 1000, tid: 1 },
+			{ ph: 'X', name: 'Total Source', ts: 0, dur: 450, tid: 1 },
+			{ ph: 'X', name: 'Total PerformPendingInstantiations', ts: 0, dur: 400, tid: 1 },
+			{ ph: 'X', name: 'Total Backend', ts: 0, dur: 900, tid: 1 },
+			{ ph: 'X', name: 'Total OptModule', ts: 0, dur: 500, tid: 1 },
+			{ ph: 'X', name: 'Total CodeGenPasses', ts: 0, dur: 350, tid: 1 }
+		]);
+
+		const file = parseClangTrace(tracePath, '/src/phases.cpp').file;
+
+		assert.strictEqual(file.totals['Source'], 450);
+		assert.strictEqual(file.optimTime, 500);
+		assert.deepStrictEqual(file.phases, {
+			'Parsing': 300,
+			'Instantiation': 400,
+			'Frontend (other)': 300,
+			'Optimization': 500,
+			'Code generation': 350,
+			'Backend (other)': 50,
+			'Other': 100
+		});
+	});
+
+	test('Strips template arguments', () => {
+		assert.strictEqual(stripTemplateArguments('std::vector<std::pair<int, float>>::push_back'), 'std::vector::push_back');
+		assert.strictEqual(stripTemplateArguments('std::basic_ostream<char>::operator<<'), 'std::basic_ostream::operator<<');
+		assert.strictEqual(stripTemplateArguments('operator<=><Foo>'), 'operator<=>');
+		assert.strictEqual(stripTemplateArguments('Foo::bar'), 'Foo::bar');
+	});
+
+	test('Merges many traces into one entry per header', () => {
+		const aggregator = new TraceAggregator();
+		for (let i = 0; i < 2000; i++) {
+			aggregator.add(makeSummary(i, 100));
+		}
+		// The same unit traced twice is one includer
+		aggregator.add(makeSummary(0, 100));
+
+		const result = aggregator.result();
+		const header = result.cumulatedIncludes.find(inc => inc.path === '/inc/header_99.h')!;
+
+		assert.strictEqual(result.files.length, 2001);
+		assert.strictEqual(result.includes.length, 100);
+		assert.strictEqual(result.cumulatedIncludes.length, 100);
+		assert.strictEqual(header.count, 2001);
+		assert.strictEqual(header.totalTime, 2001 * 100);
+		assert.strictEqual(header.includedBy.length, 2000);
+		assert.strictEqual(result.cumulatedIncludes[0].path, '/inc/header_99.h');
+	});
+
+	test('Aggregation scales linearly with the number of traces', function () {
+		this.timeout(60000);
+
+		const small = Array.from({ length: 250 }, (_, i) => makeSummary(i, 100));
+		const large = Array.from({ length: 2000 }, (_, i) => makeSummary(i, 100));
+
+		// Warm-up, for the JIT
+		timeAggregation(small);
+		const ratio = timeAggregation(large) / timeAggregation(small);
+
+		// 8x the traces: ~8x the time when linear (a bit more with the final sorts), ~64x when quadratic
+		assert.ok(ratio < 32, `8x the traces took ${ratio.toFixed(1)}x the time`);
+	});
+});
@@ -0,0 +1,48 @@
+import * as assert from 'assert';
+import { TreemapFile, buildTreemap, layoutTreemap } from '../webviews/treemap';
+
+function file(sourcePath: string, totalTime: number, target?: string, frontend = 0): TreemapFile {
+	return { sourcePath, tracePath: `${sourcePath}.json`, target, totalTime, phases: { 'Parsing': frontend, 'Optimization': totalTime - frontend } };
+}
+
+const files = [
+	file('/repo/src/engine/render/mesh.cpp', 400, 'engine', 100),
+	file('/repo/src/engine/render/shader.cpp', 200, 'engine', 150),
+	file('/repo/src/engine/audio.cpp', 100, 'engine', 100),
+	file('/repo/src/tools/main.cpp', 300, 'tool', 50),
+	file('/repo/third_party/zlib/inflate.c', 50)
+];
+
+suite('Treemap', () => {
+	test('Rolls the time up by directory', () => {
+		const root = buildTreemap(files, 'directory', 'total');
+
+		assert.strictEqual(root.value, 1050);
+		assert.strictEqual(root.path, '/repo');
+		assert.deepStrictEqual(root.children.map(c => [c.name, c.value]), [['src', 1000], ['third_party/zlib', 50]]);
+
+		const engine = root.children[0].children[0];
+		assert.deepStrictEqual([engine.name, engine.path, engine.value], ['engine', '/repo/src/engine', 700]);
+		assert.deepStrictEqual(engine.children.map(c => c.name), ['render', 'audio.cpp']);
+	});
+
+	test('Rolls the time up by target', () => {
+		const root = buildTreemap(files, 'target', 'frontend');
+
+		assert.deepStrictEqual(root.children.map(c => [c.name, c.value]), [['engine', 350], ['tool', 50]]);
+		assert.strictEqual(root.value, 400);
+	});
+
+	test('Lays out areas proportional to the time', () => {
+		const root = buildTreemap(files, 'directory', 'total');
+		const rects = layoutTreemap(root.children[0].children[0].children, 0, 0, 300, 200);
+
+		const area = rects.reduce((sum, r) => sum + r.width * r.height, 0);
+		assert.ok(Math.abs(area - 300 * 200) < 1e-6);
+
+		for (const rect of rects) {
+			assert.ok(Math.abs(rect.width * rect.height - 60000 * rect.node.value / 700) < 1e-6);
+			assert.ok(rect.x >= 0 && rect.y >= 0 && rect.x + rect.width <= 300 + 1e-6 && rect.y + rect.height <= 200 + 1e-6);
+		}
+	});
+});
@@ -0,0 +1,418 @@
+import * as fs from 'fs';
+
+// Pure trace processing, shared by the extension host and the parsing workers (no vscode import)
+
+export interface FileStats {
+	tracePath: string;
+	sourcePath: string;
+	// Build target of the unit when the object path tells it (CMake, Meson)
+	target?: string;
+	totalTime: number;
+	sourceTime: number;
+	templateTime: number;
+	optimTime: number;
+	// Every "Total <name>" event of the trace, by name (ExecuteCompiler, Frontend, Backend, CodeGen Function...)
+	totals: Record<string, number>;
+	// Split of totalTime in the non-overlapping FILE_PHASES
+	phases: Record<string, number>;
+}
+
+export const FILE_PHASES = ['Parsing', 'Instantiation', 'Frontend (other)', 'Optimization', 'Code generation', 'Backend (other)', 'Other'];
+
+export interface IncludeStats {
+	path: string;
+	maxTime: number;
+	count: number;
+	includedBy: string[];
+}
+
+export interface CumulatedIncludeStats {
+	path: string;
+	totalTime: number;
+	count: number;
+	includedBy: string[];
+}
+
+export interface UnitCost {
+	sourcePath: string;
+	time: number;
+}
+
+export interface TemplateStats {
+	name: string;
+	totalTime: number;
+	count: number;
+	unitCount: number;
+	topUnits: UnitCost[];
+}
+
+// Compile time of every translation unit that would be rebuilt if the header changed
+export interface RebuildCostStats {
+	path: string;
+	rebuildTime: number;
+	unitCount: number;
+	includedBy: string[];
+}
+
+// A header included by a translation unit or by another header, as nested in the Source events of the trace
+export interface IncludeNode {
+	path: string;
+	time: number;
+	children: IncludeNode[];
+}
+
+export interface IncludeTree {
+	sourcePath: string;
+	roots: IncludeNode[];
+}
+
+// Include trees as saved in the analysis files: a header path is written once, the nodes refer to it by index
+export type PackedIncludeNode = [pathIndex: number, time: number, children: PackedIncludeNode[]];
+
+export interface PackedIncludeTrees {
+	paths: string[];
+	trees: [sourcePathIndex: number, roots: PackedIncludeNode[]][];
+}
+
+// Headers from the translation unit down to the searched one, with the time spent in each of them
+export interface IncludeChain {
+	sourcePath: string;
+	steps: { path: string, time: number }[];
+}
+
+// Events of the LLVM backend, grouped by function (CodeGen Function, OptFunction) or pass name (RunPass)
+export type BackendEventKind = 'CodeGen Function' | 'OptFunction' | 'RunPass';
+
+export interface BackendStats {
+	kind: BackendEventKind;
+	name: string;
+	totalTime: number;
+	count: number;
+	unitCount: number;
+	topUnits: UnitCost[];
+}
+
+// Everything a single trace contributes to a folder analysis, with its events already grouped by header / template
+export interface TraceSummary {
+	file: FileStats;
+	includes: { path: string, count: number, maxTime: number, totalTime: number }[];
+	includeTree: IncludeNode[];
+	templates: { name: string, count: number, totalTime: number }[];
+	backend: { kind: BackendEventKind, name: string, count: number, totalTime: number }[];
+}
+
+export interface AggregatedTraces {
+	files: FileStats[];
+	includes: IncludeStats[];
+	cumulatedIncludes: CumulatedIncludeStats[];
+	rebuildCosts: RebuildCostStats[];
+	includeTrees: IncludeTree[];
+	templates: TemplateStats[];
+	backend: BackendStats[];
+}
+
+const TOP_UNITS = 10;
+const BACKEND_EVENTS: ReadonlySet<string> = new Set<BackendEventKind>(['CodeGen Function', 'OptFunction', 'RunPass']);
+
+// "std::vector<std::pair<int, float>>::push_back" -> "std::vector::push_back"
+export function stripTemplateArguments(name: string): string {
+	let result = '';
+	let depth = 0;
+
+	for (let i = 0; i < name.length; i++) {
+		const ch = name[i];
+
+		if (depth === 0 && /operator\s*$/.test(result)) {
+			// operator<, operator<<, operator<=>, operator>...
+			const match = name.substring(i).match(/^(<=>|<<=|>>=|<<|>>|<=|>=|<|>|->\*|->|\(\)|\[\])/);
+			if (match) {
+				result += match[0];
+				i += match[0].length - 1;
+				continue;
+			}
+		}
+
+		if (ch === '<') {
+			depth++;
+		} else if (ch === '>' && depth > 0) {
+			depth--;
+		} else if (depth === 0) {
+			result += ch;
+		}
+	}
+
+	return result;
+}
+
+export function parseClangTrace(tracePath: string, sourcePath: string): TraceSummary {
+	const rawData = fs.readFileSync(tracePath, 'utf-8');
+	const json = JSON.parse(rawData);
+	const events = json.traceEvents;
+
+	const fileStat: FileStats = {
+		tracePath: tracePath,
+		sourcePath: sourcePath,
+		totalTime: 0,
+		sourceTime: 0,
+		templateTime: 0,
+		optimTime: 0,
+		totals: {},
+		phases: {}
+	};
+
+	const includes = new Map<string, { path: string, count: number, maxTime: number, totalTime: number }>();
+	const templates = new Map<string, { name: string, count: number, totalTime: number }>();
+	const backend = new Map<string, { kind: BackendEventKind, name: string, count: number, totalTime: number }>();
+	const sourceEventStack: { event: any, node: IncludeNode }[] = [];
+	const includeTree: IncludeNode[] = [];
+	let firstSourceEventTs: number = Infinity;
+	let lastSourceEventTs: number = 0;
+
+	for (const event of events) {
+		const name = event.name;
+		const dur = event.dur || 0;
+
+		if (event.cat === "Source" && event.ph === "b") {
+			const node: IncludeNode = { path: event.args?.detail, time: 0, children: [] };
+			const parent = sourceEventStack[sourceEventStack.length - 1];
+			(parent ? parent.node.children : includeTree).push(node);
+
+			sourceEventStack.push({ event, node });
+			firstSourceEventTs = Math.min(firstSourceEventTs, event.ts);
+			continue;
+		}
+
+		if (event.cat === "Source" && event.ph === "e") {
+			const start = sourceEventStack.pop();
+			if (!start) { continue; }
+
+			lastSourceEventTs = Math.max(lastSourceEventTs, event.ts);
+
+			const dur = event.ts - start.event.ts;
+			const detail = start.event.args?.detail;
+			start.node.time = dur;
+
+			const existing = includes.get(detail);
+			if (existing) {
+				existing.count += 1;
+				existing.maxTime = Math.max(existing.maxTime, dur);
+				existing.totalTime += dur;
+			} else {
+				includes.set(detail, { path: detail, count: 1, maxTime: dur, totalTime: dur });
+			}
+			continue;
+		}
+
+		if ((name === "InstantiateClass" || name === "InstantiateFunction") && event.args?.detail) {
+			const templateName = stripTemplateArguments(event.args.detail);
+			const existing = templates.get(templateName);
+			if (existing) {
+				existing.count += 1;
+				existing.totalTime += dur;
+			} else {
+				templates.set(templateName, { name: templateName, count: 1, totalTime: dur });
+			}
+			continue;
+		}
+
+		if (BACKEND_EVENTS.has(name) && event.args?.detail) {
+			const key = `${name}\0${event.args.detail}`;
+			const existing = backend.get(key);
+			if (existing) {
+				existing.count += 1;
+				existing.totalTime += dur;
+			} else {
+				backend.set(key, { kind: name, name: event.args.detail, count: 1, totalTime: dur });
+			}
+			continue;
+		}
+
+		if (typeof name === "string" && name.startsWith("Total ")) {
+			fileStat.totals[name.substring(6)] = dur;
+		}
+	}
+
+	fileStat.totalTime = fileStat.totals["ExecuteCompiler"] ?? 0;
+	fileStat.templateTime = fileStat.totals["InstantiateFunction"] ?? 0;
+	fileStat.optimTime = fileStat.totals["OptModule"] ?? 0;
+
+	// "Total Source" adds up nested Source events, a header inside a header is counted twice: use their span instead
+	if (lastSourceEventTs !== 0) {
+		fileStat.sourceTime = lastSourceEventTs - firstSourceEventTs;
+	}
+	fileStat.phases = computePhases(fileStat);
+
+	return { file: fileStat, includes: [...includes.values()], includeTree, templates: [...templates.values()], backend: [...backend.values()] };
+}
+
+// The Total counters overlap (Frontend contains Source and CodeGen Function, Backend contains OptModule...),
+// the phases are carved out of them so they add up to the compilation time
+export function computePhases(file: FileStats): Record<string, number> {
+	const total = (name: string) => file.totals[name] ?? 0;
+	const frontend = total("Frontend");
+	const backend = total("Backend");
+
+	const parsing = frontend > 0 ? Math.min(file.sourceTime, frontend) : file.sourceTime;
+	const instantiation = total("PerformPendingInstantiations");
+	const optimization = total("Optimizer") || total("OptModule");
+	const codeGeneration = total("CodeGenPasses");
+
+	const phases: Record<string, number> = {
+		'Parsing': parsing,
+		'Instantiation': instantiation,
+		'Frontend (other)': Math.max(frontend - parsing - instantiation, 0),
+		'Optimization': optimization,
+		'Code generation': codeGeneration,
+		'Backend (other)': Math.max(backend - optimization - codeGeneration, 0)
+	};
+
+	const known = Object.values(phases).reduce((sum, time) => sum + time, 0);
+	phases['Other'] = Math.max(file.totalTime - known, 0);
+
+	return phases;
+}
+
+export function packIncludeTrees(trees: IncludeTree[]): PackedIncludeTrees {
+	const paths: string[] = [];
+	const indexes = new Map<string, number>();
+	const indexOf = (p: string) => {
+		let index = indexes.get(p);
+		if (index === undefined) {
+			index = paths.push(p) - 1;
+			indexes.set(p, index);
+		}
+		return index;
+	};
+	const pack = (node: IncludeNode): PackedIncludeNode => [indexOf(node.path), node.time, node.children.map(pack)];
+
+	return { paths, trees: trees.map(tree => [indexOf(tree.sourcePath), tree.roots.map(pack)]) };
+}
+
+export function unpackIncludeTrees({ paths, trees }: PackedIncludeTrees): IncludeTree[] {
+	const unpack = ([pathIndex, time, children]: PackedIncludeNode): IncludeNode => ({ path: paths[pathIndex], time, children: children.map(unpack) });
+
+	return trees.map(([sourcePathIndex, roots]) => ({ sourcePath: paths[sourcePathIndex], roots: roots.map(unpack) }));
+}
+
+// Every path from the roots of the include trees to the header, one per inclusion
+export function findIncludeChains(trees: IncludeTree[], headerPath: string): IncludeChain[] {
+	const normalize = (p: string) => p.replace(/\\/g, '/');
+	const target = normalize(headerPath);
+	const chains: IncludeChain[] = [];
+
+	const visit = (sourcePath: string, node: IncludeNode, steps: { path: string, time: number }[]) => {
+		const current = [...steps, { path: node.path, time: node.time }];
+		if (normalize(node.path) === target) {
+			chains.push({ sourcePath, steps: current });
+			return;
+		}
+		node.children.forEach(child => visit(sourcePath, child, current));
+	};
+
+	for (const tree of trees) {
+		tree.roots.forEach(root => visit(tree.sourcePath, root, []));
+	}
+
+	return chains.sort((a, b) => b.steps[b.steps.length - 1].time - a.steps[a.steps.length - 1].time);
+}
+
+// Keeps the units that pay the most for a template or a backend function
+function withTopUnits<T extends { unitCount: number, topUnits: UnitCost[] }>({ stats, units }: { stats: T, units: UnitCost[] }): T {
+	return {
+		...stats,
+		unitCount: units.length,
+		topUnits: [...units].sort((a, b) => b.time - a.time).slice(0, TOP_UNITS)
+	};
+}
+
+// Merges trace summaries with keyed maps and sets, linear in the number of Source events
+export class TraceAggregator {
+	private readonly files: FileStats[] = [];
+	private readonly includeTrees: IncludeTree[] = [];
+	private readonly includes = new Map<string, { stats: IncludeStats, includedBy: Set<string> }>();
+	private readonly cumulatedIncludes = new Map<string, { stats: CumulatedIncludeStats, includedBy: Set<string> }>();
+	private readonly templates = new Map<string, { stats: TemplateStats, units: UnitCost[] }>();
+	private readonly backend = new Map<string, { stats: BackendStats, units: UnitCost[] }>();
+
+	public add(summary: TraceSummary) {
+		const sourcePath = summary.file.sourcePath;
+		this.files.push(summary.file);
+		this.includeTrees.push({ sourcePath, roots: summary.includeTree });
+
+		for (const inc of summary.includes) {
+			let existingInc = this.includes.get(inc.path);
+			if (!existingInc) {
+				existingInc = { stats: { path: inc.path, maxTime: 0, count: 0, includedBy: [] }, includedBy: new Set() };
+				this.includes.set(inc.path, existingInc);
+			}
+			existingInc.stats.maxTime = Math.max(existingInc.stats.maxTime, inc.maxTime);
+			existingInc.stats.count += inc.count;
+			existingInc.includedBy.add(sourcePath);
+
+			let existingCumul = this.cumulatedIncludes.get(inc.path);
+			if (!existingCumul) {
+				existingCumul = { stats: { path: inc.path, totalTime: 0, count: 0, includedBy: [] }, includedBy: new Set() };
+				this.cumulatedIncludes.set(inc.path, existingCumul);
+			}
+			existingCumul.stats.totalTime += inc.totalTime;
+			existingCumul.stats.count += inc.count;
+			existingCumul.includedBy.add(sourcePath);
+		}
+
+		for (const tpl of summary.templates) {
+			let existing = this.templates.get(tpl.name);
+			if (!existing) {
+				existing = { stats: { name: tpl.name, totalTime: 0, count: 0, unitCount: 0, topUnits: [] }, units: [] };
+				this.templates.set(tpl.name, existing);
+			}
+			existing.stats.totalTime += tpl.totalTime;
+			existing.stats.count += tpl.count;
+			existing.units.push({ sourcePath, time: tpl.totalTime });
+		}
+
+		for (const item of summary.backend) {
+			const key = `${item.kind}\0${item.name}`;
+			let existing = this.backend.get(key);
+			if (!existing) {
+				existing = { stats: { kind: item.kind, name: item.name, totalTime: 0, count: 0, unitCount: 0, topUnits: [] }, units: [] };
+				this.backend.set(key, existing);
+			}
+			existing.stats.totalTime += item.totalTime;
+			existing.stats.count += item.count;
+			existing.units.push({ sourcePath, time: item.totalTime });
+		}
+	}
+
+	public result(): AggregatedTraces {
+		const byPath = (a: string, b: string) => a.localeCompare(b);
+
+		const includes = [...this.includes.values()].map(({ stats, includedBy }) => ({ ...stats, includedBy: [...includedBy].sort(byPath) }));
+		const cumulatedIncludes = [...this.cumulatedIncludes.values()].map(({ stats, includedBy }) => ({ ...stats, includedBy: [...includedBy].sort(byPath) }));
+
+		// Source events are nested, so includedBy already lists the units including the header transitively.
+		// All the variants of a unit are rebuilt together.
+		// Inclusions shorter than -ftime-trace-granularity have no Source event, those headers are missing.
+		const unitTimes = new Map<string, number>();
+		this.files.forEach(f => unitTimes.set(f.sourcePath, (unitTimes.get(f.sourcePath) ?? 0) + f.totalTime));
+
+		const rebuildCosts = cumulatedIncludes.map(({ path, includedBy }) => ({
+			path,
+			rebuildTime: includedBy.reduce((sum, sourcePath) => sum + (unitTimes.get(sourcePath) ?? 0), 0),
+			unitCount: includedBy.length,
+			includedBy
+		}));
+
+		const templates = [...this.templates.values()].map(withTopUnits);
+		const backend = [...this.backend.values()].map(withTopUnits);
+
+		return {
+			files: [...this.files].sort((a, b) => b.totalTime - a.totalTime),
+			includes: includes.sort((a, b) => b.maxTime - a.maxTime),
+			cumulatedIncludes: cumulatedIncludes.sort((a, b) => b.totalTime - a.totalTime),
+			rebuildCosts: rebuildCosts.sort((a, b) => b.rebuildTime - a.rebuildTime),
+			includeTrees: [...this.includeTrees],
+			templates: templates.sort((a, b) => b.totalTime - a.totalTime),
+			backend: backend.sort((a, b) => b.totalTime - a.totalTime)
+		};
+	}
+}
@@ -0,0 +1,10 @@
+import { parentPort } from 'worker_threads';
+import { parseClangTrace } from './traceParser';
+
+parentPort?.on('message', (job: { tracePath: string, sourcePath: string }) => {
+	try {
+		parentPort?.postMessage({ summary: parseClangTrace(job.tracePath, job.sourcePath) });
+	} catch (err) {
+		parentPort?.postMessage({ error: `${err}` });
+	}
+});
@@ -1,6 +1,10 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
+import { CompileEntry } from './compilationDatabase';
+import { describeVariants } from './builder';
+import { IncludingUnit } from './headers';
+import { TrackedFile } from './history';
 
 export async function pickFolderIntegrated(): Promise<vscode.Uri | undefined> {
 	const root = vscode.workspace.workspaceFolders?.[0];
@@ -65,3 +69,79 @@ export async function pickFolderIntegrated(): Promise<vscode.Uri | undefined> {
 		}
 	}
 }
+
+export async function pickEntryVariant(entries: CompileEntry[]): Promise<CompileEntry | undefined> {
+	if (entries.length <= 1) { return entries[0]; }
+
+	const items = describeVariants(entries).map((variant, i) => ({
+		label: variant.label,
+		description: variant.description,
+		entry: entries[i]
+	}));
+
+	const selection = await vscode.window.showQuickPick(items, {
+		placeHolder: `${path.basename(entries[0].file)} is compiled ${entries.length} times, pick the variant to trace`,
+		matchOnDescription: true
+	});
+
+	return selection?.entry;
+}
+
+export async function pickAllVariants(): Promise<boolean | undefined> {
+	const items = [
+		{ label: "Trace all variants", detail: "Files compiled for several targets or configs are traced once per compile command.", allVariants: true },
+		{ label: "Trace one variant per file", detail: "Only the first compile command of each file is traced.", allVariants: false }
+	];
+
+	const selection = await vscode.window.showQuickPick(items, {
+		placeHolder: "Some files of this folder have several compile commands"
+	});
+
+	return selection?.allVariants;
+}
+
+export async function pickIncludingUnit(headerName: string, units: IncludingUnit[]): Promise<IncludingUnit | undefined> {
+	if (units.length === 1) { return units[0]; }
+
+	const items: (vscode.QuickPickItem & { unit?: IncludingUnit })[] = units.map(unit => ({
+		label: path.basename(unit.sourcePath),
+		description: unit.totalTime !== undefined ? `${(unit.totalTime / 1000).toFixed(1)} ms` : undefined,
+		detail: unit.sourcePath,
+		unit
+	}));
+
+	// Units are sorted by their last known compile time, the first one is the cheapest
+	if (units[0].totalTime !== undefined) {
+		items.unshift(
+			{ label: "$(zap) Use the cheapest", description: path.basename(units[0].sourcePath), unit: units[0] },
+			{ label: "", kind: vscode.QuickPickItemKind.Separator }
+		);
+	}
+
+	const selection = await vscode.window.showQuickPick(items, {
+		placeHolder: `Translation unit to trace ${headerName} with`,
+		matchOnDetail: true
+	});
+
+	return selection?.unit;
+}
+
+export async function pickTrackedFile(files: TrackedFile[]): Promise<TrackedFile | undefined> {
+	const items: (vscode.QuickPickItem & { file: TrackedFile })[] = files.map(file => {
+		const last = file.points[file.points.length - 1];
+		const kind = file.kind === 'header' ? `header in ${path.basename(file.folderPath ?? '')}` : 'translation unit';
+		return {
+			label: path.basename(file.path),
+			description: `${kind} · ${(last.time / 1000).toFixed(1)} ms · ${file.points.length} analyses`,
+			detail: file.path,
+			file
+		};
+	});
+
+	const selection = await vscode.window.showQuickPick(items, {
+		placeHolder: "File to show the compile time history of",
+		matchOnDetail: true
+	});
+
+	return selection?.file;
+}
@@ -0,0 +1,143 @@
+interface TimeDelta {
+	path: string;
+	before: number;
+	after: number;
+	delta: number;
+	status: 'added' | 'removed' | 'slower' | 'faster' | 'unchanged';
+}
+
+interface AnalysisDiff {
+	totalBefore: number;
+	totalAfter: number;
+	files: TimeDelta[];
+	includes: TimeDelta[];
+	cumulatedIncludes: TimeDelta[];
+}
+
+type DiffView = 'files' | 'includes' | 'cumulatedIncludes';
+
+let diff: AnalysisDiff;
+let currentView: DiffView = 'files';
+
+const viewDescriptions: Record<DiffView, string> = {
+	'files': 'Compilation time of each translation unit, regressions first.',
+	'includes': 'Self parse time of each header. New headers appear in red, headers no longer included in green.',
+	'cumulatedIncludes': 'Parse time of each header summed over all the files including it: the column to check after an include cleanup.'
+};
+
+const summary = document.getElementById('summary') as HTMLElement;
+const tableContainer = document.getElementById('tableContainer') as HTMLElement;
+const filterSelect = document.getElementById('filterSelect') as HTMLSelectElement;
+const descText = document.getElementById('desc-text') as HTMLElement;
+
+function formatTime(us: number): string {
+	return Math.abs(us) >= 1000000 ? `${(us / 1000000).toFixed(2)} s` : `${(us / 1000).toFixed(1)} ms`;
+}
+
+function formatDelta(delta: number, before: number): string {
+	const sign = delta > 0 ? '+' : delta < 0 ? '−' : '';
+	const pct = before > 0 ? ` (${sign}${Math.abs(delta / before * 100).toFixed(1)}%)` : '';
+	return `${sign}${formatTime(Math.abs(delta))}${pct}`;
+}
+
+function renderSummary(beforeName: string, afterName: string): void {
+	const count = (list: TimeDelta[], status: TimeDelta['status']) => list.filter(d => d.status === status).length;
+
+	summary.replaceChildren();
+
+	const total = document.createElement('span');
+	total.textContent = `${beforeName} → ${afterName}: ${formatTime(diff.totalBefore)} → ${formatTime(diff.totalAfter)}`;
+
+	const delta = document.createElement('strong');
+	const totalDelta = diff.totalAfter - diff.totalBefore;
+	delta.className = totalDelta > 0 ? 'slower' : 'faster';
+	delta.textContent = formatDelta(totalDelta, diff.totalBefore);
+
+	const counts = document.createElement('span');
+	counts.textContent = [
+		`${count(diff.files, 'slower')} files slower`,
+		`${count(diff.files, 'faster')} faster`,
+		`${count(diff.cumulatedIncludes, 'added')} new headers`,
+		`${count(diff.cumulatedIncludes, 'removed')} removed headers`
+	].join(' · ');
+
+	summary.append(total, delta, counts);
+}
+
+function renderTable(): void {
+	const filter = filterSelect.value;
+	const rows = diff[currentView].filter(d =>
+		filter === 'all' ||
+		(filter === 'changed' ? d.status !== 'unchanged' : d.status === filter)
+	);
+
+	descText.textContent = `${viewDescriptions[currentView]} ${rows.length} rows.`;
+
+	const table = document.createElement('table');
+	const header = table.createTHead().insertRow();
+	for (const title of ['Name', 'Before', 'After', 'Delta', '']) {
+		const th = document.createElement('th');
+		th.textContent = title;
+		header.appendChild(th);
+	}
+
+	const body = table.createTBody();
+	for (const row of rows) {
+		const tr = body.insertRow();
+		tr.title = row.path;
+		tr.addEventListener('dblclick', () => {
+			vscode?.postMessage({ command: 'openFile', path: row.path });
+		});
+
+		const cell = (text: string, className?: string) => {
+			const td = tr.insertCell();
+			td.textContent = text;
+			if (className) { td.className = className; }
+		};
+
+		cell(row.path.split(/[\\/]/).pop() || row.path);
+		cell(row.status === 'added' ? '—' : formatTime(row.before), 'time');
+		cell(row.status === 'removed' ? '—' : formatTime(row.after), 'time');
+		cell(formatDelta(row.delta, row.before), `time ${row.status}`);
+		cell(row.status === 'added' ? 'new' : row.status === 'removed' ? 'removed' : '', row.status);
+	}
+
+	tableContainer.replaceChildren(table);
+}
+
+function initTabs(): void {
+	const tabs = document.querySelectorAll<HTMLButtonElement>('.tab-btn');
+
+	tabs.forEach(btn => {
+		btn.addEventListener('click', () => {
+			const target = btn.dataset.target as DiffView | undefined;
+			if (!target) { return; }
+
+			tabs.forEach(t => t.classList.remove('active'));
+			btn.classList.add('active');
+
+			currentView = target;
+			if (diff) { renderTable(); }
+		});
+	});
+
+	filterSelect.addEventListener('change', () => {
+		if (diff) { renderTable(); }
+	});
+}
+
+initTabs();
+
+const vscode = typeof (window as any).acquireVsCodeApi === 'function' ? (window as any).acquireVsCodeApi() : null;
+window.addEventListener('message', event => {
+	const message = event.data;
+
+	switch (message.command) {
+		case 'initData':
+			diff = message.payload;
+			renderSummary(message.beforeName, message.afterName);
+			renderTable();
+			break;
+	}
+});
+vscode?.postMessage({ command: 'webviewReady' });
@@ -21,7 +21,13 @@ const CONFIG = {
 		DETAIL_FONT: "10px sans-serif",
 		ROUNDING: 2,
 		MIN_WIDTH_FOR_TEXT: 20,
-		MIN_WIDTH_FOR_DETAIL: 120
+		MIN_WIDTH_FOR_DETAIL: 120,
+		HIGHLIGHT_COLOR: "#ffcc00"
+	},
+	DIFF: {
+		// Events shorter than the default -ftime-trace-granularity come and go between runs
+		NOISE: 500,
+		MAX_ROWS: 1000
 	}
 };
 
@@ -52,12 +58,23 @@ interface ProcessedEvent {
 
 interface Thread {
 	tid: string;
+	// "Before" / "After" in comparison mode
+	label?: string;
 	sourceEvents: ProcessedEvent[];
 	mainEvents: ProcessedEvent[];
 	maxSourceDepth: number;
 	maxMainDepth: number;
 }
 
+interface EventDelta {
+	name: string;
+	detail: string;
+	before: number;
+	after: number;
+	delta: number;
+	status: 'added' | 'removed' | 'slower' | 'faster' | 'unchanged';
+}
+
 interface ViewState {
 	x: number;
 	y: number;
@@ -75,12 +92,20 @@ const ctx = canvas.getContext('2d')!;
 const tooltip = document.getElementById('tooltip') as HTMLDivElement;
 const contextMenu = document.getElementById('context-menu') as HTMLDivElement;
 const overlay = document.getElementById('loadingOverlay') as HTMLElement;
+const diffPanel = document.getElementById('diffPanel') as HTMLElement;
+const diffSummary = document.getElementById('diffSummary') as HTMLElement;
+const diffFilter = document.getElementById('diffFilter') as HTMLSelectElement;
+const diffTable = document.getElementById('diffTable') as HTMLElement;
 
 let threads: Thread[] = [];
+// Trace paths sent by the extension, saved with the view to restore the panel after a reload
+let traceSource: unknown = null;
 let maxTraceTime = 0;
 let totalContentHeight = 0;
 let selectedEvent: ProcessedEvent | null = null;
 let rightClickedEvent: ProcessedEvent | null = null;
+let highlightedEvents = new Set<ProcessedEvent>();
+let eventDeltas: EventDelta[] = [];
 
 let view: ViewState = {
 	x: CONFIG.VIEW.MARGIN_SIDE,
@@ -96,7 +121,8 @@ function getClientWidth(): number {
 
 function resizeCanvas(): void {
 	canvas.width = getClientWidth();
-	canvas.height = window.innerHeight;
+	canvas.height = window.innerHeight - diffPanel.offsetHeight;
+	canvas.style.height = `${canvas.height}px`;
 }
 
 function resetView(): void {
@@ -117,11 +143,31 @@ function resetView(): void {
 // --- Logic ---
 
 function preprocess(data: { traceEvents: TraceEvent[] }): void {
+	const result = buildThreads(data);
+	threads = result.threads;
+	maxTraceTime = result.maxTime;
+
+	updateTotalHeight();
+}
+
+// Both traces on the same time axis, the tracks of the second one under the tracks of the first one
+function preprocessComparison(before: { traceEvents: TraceEvent[] }, after: { traceEvents: TraceEvent[] }): void {
+	const beforeResult = buildThreads(before, 'Before');
+	const afterResult = buildThreads(after, 'After');
+
+	threads = [...beforeResult.threads, ...afterResult.threads];
+	maxTraceTime = Math.max(beforeResult.maxTime, afterResult.maxTime);
+	eventDeltas = diffEvents(beforeResult.threads, afterResult.threads);
+
+	updateTotalHeight();
+}
+
+function buildThreads(data: { traceEvents: TraceEvent[] }, label?: string): { threads: Thread[], maxTime: number } {
 	const events = data.traceEvents || [];
 	const threadMap: Record<string, { sources: ProcessedEvent[], main: ProcessedEvent[] }> = {};
 	const openEvents: Record<string, TraceEvent[]> = {};
 
-	maxTraceTime = 0;
+	let maxTraceTime = 0;
 
 	events.forEach(e => {
 		if (e.tid === undefined) { return; }
@@ -170,7 +216,7 @@ function preprocess(data: { traceEvents: TraceEvent[] }): void {
 		}
 	});
 
-	threads = Object.keys(threadMap).map(tid => {
+	const threads = Object.keys(threadMap).map(tid => {
 		const tData = threadMap[tid];
 
 		const computeDepth = (evs: ProcessedEvent[]) => {
@@ -190,6 +236,7 @@ function preprocess(data: { traceEvents: TraceEvent[] }): void {
 
 		return {
 			tid,
+			label: label && `${label} · thread ${tid}`,
 			sourceEvents: tData.sources,
 			mainEvents: tData.main,
 			maxSourceDepth: computeDepth(tData.sources),
@@ -197,7 +244,129 @@ function preprocess(data: { traceEvents: TraceEvent[] }): void {
 		};
 	});
 
-	updateTotalHeight();
+	return { threads, maxTime: maxTraceTime };
+}
+
+function getEventKey(ev: { name: string, detail: string }): string {
+	return `${ev.name}\0${ev.detail}`;
+}
+
+// Events matched by name + detail, the durations of the repeated ones added up
+function diffEvents(before: Thread[], after: Thread[]): EventDelta[] {
+	const sumByKey = (list: Thread[]) => {
+		const sums = new Map<string, { name: string, detail: string, dur: number }>();
+		for (const ev of list.flatMap(t => [...t.sourceEvents, ...t.mainEvents])) {
+			const key = getEventKey(ev);
+			const existing = sums.get(key);
+			if (existing) {
+				existing.dur += ev.dur;
+			} else {
+				sums.set(key, { name: ev.name, detail: ev.detail, dur: ev.dur });
+			}
+		}
+		return sums;
+	};
+
+	const beforeSums = sumByKey(before);
+	const afterSums = sumByKey(after);
+	const deltas: EventDelta[] = [];
+
+	for (const key of new Set([...beforeSums.keys(), ...afterSums.keys()])) {
+		const b = beforeSums.get(key);
+		const a = afterSums.get(key);
+		const delta = (a?.dur ?? 0) - (b?.dur ?? 0);
+
+		let status: EventDelta['status'] = delta > 0 ? 'slower' : 'faster';
+		if (!b) { status = 'added'; }
+		else if (!a) { status = 'removed'; }
+		else if (Math.abs(delta) < CONFIG.DIFF.NOISE) { status = 'unchanged'; }
+
+		const source = (a ?? b)!;
+		deltas.push({ name: source.name, detail: source.detail, before: b?.dur ?? 0, after: a?.dur ?? 0, delta, status });
+	}
+
+	return deltas.sort((x, y) => y.delta - x.delta);
+}
+
+function renderDiffTable(): void {
+	const filter = diffFilter.value;
+	const rows = eventDeltas.filter(d =>
+		filter === 'all' ||
+		(filter === 'changed' ? d.status !== 'unchanged' : d.status === filter)
+	);
+
+	const ms = (us: number) => `${(us / 1000).toFixed(1)} ms`;
+	const count = (status: EventDelta['status']) => eventDeltas.filter(d => d.status === status).length;
+	const total = (list: Thread[]) => Math.max(0, ...list.flatMap(t => t.mainEvents).filter(ev => ev.name === 'Total ExecuteCompiler').map(ev => ev.dur));
+	const beforeTotal = total(threads.filter(t => t.label?.startsWith('Before')));
+	const afterTotal = total(threads.filter(t => t.label?.startsWith('After')));
+
+	diffSummary.textContent = `${ms(beforeTotal)} → ${ms(afterTotal)} · ${count('slower')} slower, ${count('faster')} faster, ${count('added')} new, ${count('removed')} gone` +
+		(rows.length > CONFIG.DIFF.MAX_ROWS ? ` · showing ${CONFIG.DIFF.MAX_ROWS} of ${rows.length}` : '');
+
+	const table = document.createElement('table');
+	const header = table.createTHead().insertRow();
+	for (const title of ['Event', 'Detail', 'Before', 'After', 'Delta']) {
+		const th = document.createElement('th');
+		th.textContent = title;
+		header.appendChild(th);
+	}
+
+	const body = table.createTBody();
+	for (const row of rows.slice(0, CONFIG.DIFF.MAX_ROWS)) {
+		const tr = body.insertRow();
+		tr.className = row.status;
+		tr.title = row.detail;
+		tr.addEventListener('click', () => selectMatchingEvents(row));
+
+		const cell = (text: string, className?: string) => {
+			const td = tr.insertCell();
+			td.textContent = text;
+			if (className) { td.className = className; }
+		};
+
+		cell(row.name);
+		cell(shortenPath(row.detail));
+		cell(row.status === 'added' ? '—' : ms(row.before), 'time');
+		cell(row.status === 'removed' ? '—' : ms(row.after), 'time');
+		cell(`${row.delta > 0 ? '+' : ''}${ms(row.delta)}`, 'time');
+	}
+
+	diffTable.replaceChildren(table);
+}
+
+// Highlights the occurrences of the event in both timelines and scrolls to the first one
+function selectMatchingEvents(row: EventDelta): void {
+	const key = getEventKey(row);
+	const matches = threads.flatMap(t => [...t.sourceEvents, ...t.mainEvents]).filter(ev => getEventKey(ev) === key);
+
+	highlightedEvents = new Set(matches);
+	selectedEvent = matches[0] ?? null;
+
+	if (selectedEvent) {
+		view.x = CONFIG.VIEW.MARGIN_SIDE - selectedEvent.start * view.scale + canvas.width / 4;
+		clampView();
+	}
+	render();
+}
+
+// Source events of the header the trace was requested for (traced through an including file)
+function applyHighlight(highlightPath?: string): void {
+	highlightedEvents = new Set();
+	if (!highlightPath) { return; }
+
+	const normalize = (p: string) => p.replace(/\\/g, '/').toLowerCase();
+	const target = normalize(highlightPath);
+	const sources = threads.flatMap(t => t.sourceEvents);
+
+	let matches = sources.filter(ev => normalize(ev.detail) === target);
+	if (matches.length === 0) {
+		const baseName = target.split('/').pop() || target;
+		matches = sources.filter(ev => normalize(ev.detail).endsWith('/' + baseName));
+	}
+
+	matches.forEach(ev => highlightedEvents.add(ev));
+	selectedEvent = matches[0] ?? null;
 }
 
 function updateTotalHeight(): void {
@@ -311,6 +480,12 @@ function drawEvent(ev: ProcessedEvent, rowOffsetY: number) {
 	ctx.roundRect(x, y, rectW, rectH, CONFIG.RENDERING.ROUNDING);
 	ctx.fill();
 
+	if (highlightedEvents.has(ev)) {
+		ctx.strokeStyle = CONFIG.RENDERING.HIGHLIGHT_COLOR;
+		ctx.lineWidth = 2;
+		ctx.stroke();
+	}
+
 	if (selectedEvent === ev) {
 		ctx.strokeStyle = "white";
 		ctx.lineWidth = 2;
@@ -369,6 +544,12 @@ function render(): void {
 			return;
 		}
 
+		if (thread.label) {
+			ctx.fillStyle = CONFIG.TIMELINE.TEXT_COLOR;
+			ctx.font = CONFIG.TIMELINE.LABEL_FONT;
+			ctx.fillText(thread.label, 8, currentY + 14);
+		}
+
 		// --- Draw Source Events ---
 		thread.sourceEvents.forEach(ev => {
 			drawEvent(ev, currentY + 20);
@@ -391,6 +572,24 @@ function render(): void {
 	});
 
 	renderTimeline();
+	saveState();
+}
+
+function saveState(): void {
+	if (traceSource) {
+		vscode?.setState({ ...traceSource as object, view: { x: view.x, y: view.y, scale: view.scale } });
+	}
+}
+
+function restoreView(saved?: { x: number, y: number, scale: number }): void {
+	if (!saved || maxTraceTime <= 0) { return; }
+
+	view.x = saved.x;
+	view.y = saved.y;
+	view.scale = saved.scale;
+
+	clampView();
+	render();
 }
 
 // --- Interactions ---
@@ -560,6 +759,8 @@ document.getElementById('menu-copy-path')?.addEventListener('click', () => {
 	}
 });
 
+diffFilter.addEventListener('change', renderDiffTable);
+
 window.addEventListener('resize', () => {
 	resizeCanvas();
 	clampView();
@@ -571,8 +772,19 @@ window.addEventListener('message', event => {
 
 	switch (message.command) {
 		case 'initData':
+			traceSource = message.source;
 			preprocess(message.payload);
+			applyHighlight(message.highlight);
+			resetView();
+			restoreView(message.view);
+			break;
+		case 'initCompare':
+			diffPanel.style.display = 'flex';
+			traceSource = message.source;
+			preprocessComparison(message.before, message.after);
+			renderDiffTable();
 			resetView();
+			restoreView(message.view);
 			break;
 	}
 });
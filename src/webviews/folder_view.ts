@@ -1,10 +1,15 @@
+import { TreemapGrouping, TreemapMetric, TreemapNode, TreemapRect, buildTreemap, layoutTreemap } from './treemap';
+
 interface FileStats {
 	tracePath: string;
 	sourcePath: string;
+	target?: string;
 	totalTime: number;
 	sourceTime: number;
 	templateTime: number;
 	optimTime: number;
+	totals: Record<string, number>;
+	phases: Record<string, number>;
 }
 
 interface IncludeStats {
@@ -21,23 +26,101 @@ interface CumulatedIncludeStats {
 	includedBy: string[];
 }
 
+interface RebuildCostStats {
+	path: string;
+	rebuildTime: number;
+	unitCount: number;
+	includedBy: string[];
+}
+
+interface UnitCost {
+	sourcePath: string;
+	time: number;
+}
+
+interface TemplateStats {
+	name: string;
+	totalTime: number;
+	count: number;
+	unitCount: number;
+	topUnits: UnitCost[];
+}
+
+interface BackendStats {
+	kind: 'CodeGen Function' | 'OptFunction' | 'RunPass';
+	name: string;
+	totalTime: number;
+	count: number;
+	unitCount: number;
+	topUnits: UnitCost[];
+}
+
+interface BuildFailure {
+	sourcePath: string;
+	exitCode: number;
+	stderr: string;
+}
+
 interface TraceResult {
 	files: FileStats[];
 	includes: IncludeStats[];
 	cumulatedIncludes: CumulatedIncludeStats[];
+	rebuildCosts: RebuildCostStats[];
+	templates: TemplateStats[];
+	backend: BackendStats[];
+	failures: BuildFailure[];
+}
+
+interface AnalysisMetadata {
+	folderPath?: string;
+	databasePath?: string;
+	createdAt?: string;
+	gitCommit?: string;
+	compilerVersion?: string;
+}
+
+interface IncludeChain {
+	sourcePath: string;
+	steps: { path: string, time: number }[];
+}
+
+interface SubItem {
+	label: string;
+	path: string;
 }
 
 let data: TraceResult;
-let currentView: 'Files' | 'Includes' | 'CumulatedIncludes' = 'Files';
+let currentView: 'Files' | 'Includes' | 'CumulatedIncludes' | 'RebuildCost' | 'Templates' | 'Backend' | 'Treemap' | 'Failed' = 'Files';
 let currentList: any[] = [];
 let expandedItems = new Set<number>();
 let itemYPositions: number[] = [];
 let selectedIndex: number | null = null;
+// Analysis file and selected tab, to restore the panel after a window reload
+let panelState: { analysisPath?: string, view?: string } = {};
+
+// Same order as FILE_PHASES in traceParser.ts
+const PHASE_COLORS: Record<string, string> = {
+	'Parsing': '#4a9e5c',
+	'Instantiation': '#c586c0',
+	'Frontend (other)': '#6a9955',
+	'Optimization': '#d7ba7d',
+	'Code generation': '#ce9178',
+	'Backend (other)': '#b5854b',
+	'Other': '#5a5a5a'
+};
+
+// 'total', 'phase:<name>' or 'counter:<name>'
+let fileSortKey = 'total';
 
 const tabDescriptions: Record<string, string> = {
-	'Files': 'Translation units sorted by total compilation time — spot which files are the biggest bottlenecks in your build.',
-	'Includes': 'Headers sorted by their own parse time — large headers that are inherently expensive to process.',
-	'CumulatedIncludes': 'Headers sorted by their total cost across all files that include them. A small header included in 500 files can outweigh a large one included once. This list is a great starting point for defining the contents of a Precompiled Header (PCH).'
+	'Files': 'Translation units sorted by total compilation time — spot which files are the biggest bottlenecks in your build. Each bar is split by compilation phase, sort by any phase or Total counter to find the files that are frontend or backend bound.',
+	'Includes': 'Headers sorted by their own parse time — large headers that are inherently expensive to process. Double-click one to see the include chains that bring it in.',
+	'CumulatedIncludes': 'Headers sorted by their total cost across all files that include them. A small header included in 500 files can outweigh a large one included once. This list is a great starting point for defining the contents of a Precompiled Header (PCH). Double-click a header to see the include chains that bring it in.',
+	'RebuildCost': 'Headers sorted by the total compile time of the files that include them, directly or not: what an edit of the header costs in the next incremental build. A cheap header included by slow files ranks high here, as long as one of its inclusions lasts more than -ftime-trace-granularity (500 µs by default): the shorter ones are missing from the traces. Double-click a header to see the include chains that bring it in.',
+	'Templates': 'Templates (arguments stripped) sorted by their total instantiation time across all files. Expand one to see the files that pay the most for it. Nested instantiations are counted in each enclosing template.',
+	'Backend': 'Code generation and optimization cost by function (CodeGen Function, OptFunction) and by LLVM pass (RunPass), summed over all files. An inline function optimized in hundreds of files shows up here even when each instance is cheap. OptFunction names are mangled.',
+	'Treemap': 'Compile time rolled up by directory or by build target (CMake and Meson object paths). Click an area to drill down, double-click a file to open its trace.',
+	'Failed': 'Translation units that failed to compile and were left out of the analysis. Expand one to see the compiler output.'
 };
 
 const canvas = document.getElementById('mainCanvas') as HTMLCanvasElement;
@@ -45,6 +128,24 @@ const overlay = document.getElementById('loadingOverlay') as HTMLElement;
 const container = document.getElementById('canvasContainer') as HTMLElement;
 const virtualHeight = document.getElementById('virtualHeight') as HTMLElement;
 const contextMenu = document.getElementById('context-menu') as HTMLDivElement;
+const menuOpenTrace = document.getElementById('menu-open-trace') as HTMLDivElement;
+const menuIncludeChains = document.getElementById('menu-include-chains') as HTMLDivElement;
+const failedList = document.getElementById('failedList') as HTMLElement;
+const chainPanel = document.getElementById('chainPanel') as HTMLElement;
+const filesControls = document.getElementById('filesControls') as HTMLElement;
+const sortSelect = document.getElementById('sortSelect') as HTMLSelectElement;
+const phaseLegend = document.getElementById('phaseLegend') as HTMLElement;
+const treemapControls = document.getElementById('treemapControls') as HTMLElement;
+const treemapGroupSelect = document.getElementById('treemapGroup') as HTMLSelectElement;
+const treemapMetricSelect = document.getElementById('treemapMetric') as HTMLSelectElement;
+const treemapUp = document.getElementById('treemapUp') as HTMLButtonElement;
+const treemapBreadcrumb = document.getElementById('treemapBreadcrumb') as HTMLElement;
+const analysisInfo = document.getElementById('analysisInfo') as HTMLElement;
+const saveAnalysisButton = document.getElementById('saveAnalysis') as HTMLButtonElement;
+
+// Drill-down path from the root of the treemap to the node shown
+let treemapStack: TreemapNode[] = [];
+let treemapRects: TreemapRect[] = [];
 const ctx = canvas.getContext('2d')!;
 
 let rightClickedPath: string | null = null;
@@ -56,10 +157,107 @@ const itemFullHeight = boxHeight + boxPadding;
 const subItemHeight = 20;
 const topOffset = 10;
 
+function getFileName(filePath: string): string {
+	return filePath.split(/[\\/]/).pop() || filePath;
+}
+
+function getItemLabel(item: any): string {
+	if (currentView === 'Templates' || currentView === 'Backend') { return item.name; }
+	const displayPath: string = item.sourcePath ?? item.path;
+	return getFileName(displayPath);
+}
+
+function getItemTitle(item: any): string {
+	return item.sourcePath ?? item.path ?? item.name;
+}
+
+function getSubItems(item: any): SubItem[] {
+	if (currentView === 'Templates' || currentView === 'Backend') {
+		return (item.topUnits ?? []).map((u: UnitCost) => ({
+			label: `${getFileName(u.sourcePath)} — ${(u.time / 1000).toFixed(1)} ms`,
+			path: u.sourcePath
+		}));
+	}
+	return (item.includedBy ?? []).map((p: string) => ({ label: getFileName(p), path: p }));
+}
+
+function isHeaderView(): boolean {
+	return currentView === 'Includes' || currentView === 'CumulatedIncludes' || currentView === 'RebuildCost';
+}
+
+function getSortTime(file: FileStats): number {
+	const [kind, name] = fileSortKey.split(/:(.*)/);
+	if (kind === 'phase') { return file.phases?.[name] ?? 0; }
+	if (kind === 'counter') { return file.totals?.[name] ?? 0; }
+	return file.totalTime;
+}
+
+function sortFiles(files: FileStats[]): FileStats[] {
+	return [...files].sort((a, b) => getSortTime(b) - getSortTime(a));
+}
+
+function initFilesControls(): void {
+	const counters = new Set<string>();
+	data.files.forEach(f => Object.keys(f.totals ?? {}).forEach(name => counters.add(name)));
+
+	const option = (value: string, label: string) => {
+		const element = document.createElement('option');
+		element.value = value;
+		element.textContent = label;
+		return element;
+	};
+
+	const phaseGroup = document.createElement('optgroup');
+	phaseGroup.label = 'Phases';
+	Object.keys(PHASE_COLORS).forEach(phase => phaseGroup.appendChild(option(`phase:${phase}`, phase)));
+
+	const counterGroup = document.createElement('optgroup');
+	counterGroup.label = 'Total counters';
+	[...counters].sort().forEach(name => counterGroup.appendChild(option(`counter:${name}`, name)));
+
+	sortSelect.replaceChildren(option('total', 'Total time'), phaseGroup, counterGroup);
+	sortSelect.value = fileSortKey;
+
+	phaseLegend.replaceChildren(...Object.entries(PHASE_COLORS).map(([phase, color]) => {
+		const entry = document.createElement('span');
+		entry.className = 'legend-entry';
+		const swatch = document.createElement('span');
+		swatch.className = 'legend-swatch';
+		swatch.style.background = color;
+		entry.append(swatch, phase);
+		return entry;
+	}));
+}
+
+// Phase segment of a file bar under the given x, for the tooltip
+function getPhaseAt(file: FileStats, x: number, barWidth: number): string | undefined {
+	let left = 20;
+	for (const phase of Object.keys(PHASE_COLORS)) {
+		const width = getPhaseShare(file, phase) * barWidth;
+		if (x >= left && x < left + width) { return phase; }
+		left += width;
+	}
+	return undefined;
+}
+
+function getItemTime(item: any): number {
+	return item.rebuildTime || item.totalTime || item.maxTime || 0;
+}
+
+// Share of the compilation time spent in a phase, files traced without a Total ExecuteCompiler event have none
+function getPhaseShare(file: FileStats, phase: string): number {
+	return file.totalTime > 0 ? (file.phases?.[phase] ?? 0) / file.totalTime : 0;
+}
+
+// Boxes are scaled to the slowest item of the list, which may take 0 µs
+function getBoxWidth(itemTime: number, maxTime: number): number {
+	return Math.max((maxTime > 0 ? itemTime / maxTime : 0) * (canvas.width - 40 - 100), 150);
+}
+
 function getItemHeight(index: number): number {
-	const item = currentList[index];
-	if (expandedItems.has(index) && item.includedBy?.length) {
-		return itemFullHeight + item.includedBy.length * subItemHeight + 8;
+	const subItems = getSubItems(currentList[index]);
+	if (expandedItems.has(index) && subItems.length) {
+		return itemFullHeight + subItems.length * subItemHeight + 8;
 	}
 	return itemFullHeight;
 }
@@ -102,11 +300,31 @@ function initTabs(): void {
 			currentView = target;
 			updateDescription(target);
 			render();
+			saveState();
 		});
 	});
 
 	container.addEventListener('scroll', () => requestAnimationFrame(drawList));
 
+	const rebuildTreemap = () => {
+		buildTreemapStack();
+		requestAnimationFrame(drawTreemap);
+	};
+	treemapGroupSelect.addEventListener('change', rebuildTreemap);
+	treemapMetricSelect.addEventListener('change', rebuildTreemap);
+
+	treemapUp.addEventListener('click', () => {
+		if (treemapStack.length > 1) {
+			treemapStack.pop();
+			requestAnimationFrame(drawTreemap);
+		}
+	});
+
+	sortSelect.addEventListener('change', () => {
+		fileSortKey = sortSelect.value;
+		render();
+	});
+
 	const resizeObserver = new ResizeObserver(() => {
 		canvas.width = container.clientWidth;
 		canvas.height = container.clientHeight;
@@ -126,20 +344,50 @@ function render(): void {
 		return;
 	}
 
-	canvas.style.display = 'block';
 	overlay.style.display = 'none';
 
+	const failedTab = document.querySelector<HTMLButtonElement>('.tab-btn[data-target="Failed"]');
+	if (failedTab) {
+		failedTab.style.display = data.failures?.length ? '' : 'none';
+		failedTab.textContent = `Failed (${data.failures?.length ?? 0})`;
+	}
+
+	chainPanel.style.display = 'none';
+	filesControls.style.display = currentView === 'Files' ? '' : 'none';
+	treemapControls.style.display = currentView === 'Treemap' ? '' : 'none';
+
+	if (currentView === 'Failed') {
+		canvas.style.display = 'none';
+		container.style.display = 'none';
+		failedList.style.display = 'block';
+		renderFailures();
+		return;
+	}
+
+	canvas.style.display = 'block';
+	container.style.display = 'block';
+	failedList.style.display = 'none';
+
 	canvas.width = container.clientWidth;
 	canvas.height = container.clientHeight;
 
+	if (currentView === 'Treemap') {
+		container.scrollTop = 0;
+		virtualHeight.style.height = '0px';
+		drawTreemap();
+		return;
+	}
+
 	let list: any[] = [];
-	if (currentView === 'Files') { list = data.files; }
+	if (currentView === 'Files') { list = sortFiles(data.files); }
 	else if (currentView === 'Includes') { list = data.includes; }
 	else if (currentView === 'CumulatedIncludes') { list = data.cumulatedIncludes; }
+	else if (currentView === 'RebuildCost') { list = data.rebuildCosts; }
+	else if (currentView === 'Templates') { list = data.templates; }
+	else if (currentView === 'Backend') { list = data.backend; }
 
-	if (!list || list.length === 0) { return; }
-
-	currentList = list;
+	// An empty tab draws nothing, but must not keep the list of the previous one under the mouse
+	currentList = list ?? [];
 	expandedItems.clear();
 	selectedIndex = null;
 	computeItemPositions();
@@ -147,11 +395,102 @@ function render(): void {
 	drawList();
 }
 
+function renderFailures(): void {
+	failedList.replaceChildren();
+
+	for (const failure of data.failures ?? []) {
+		const details = document.createElement('details');
+		const summary = document.createElement('summary');
+		summary.textContent = `${failure.sourcePath.split(/[\\/]/).pop() || failure.sourcePath} (exit code ${failure.exitCode})`;
+		summary.title = failure.sourcePath;
+		summary.addEventListener('dblclick', () => {
+			vscode?.postMessage({ command: 'openFile', path: failure.sourcePath });
+		});
+
+		const output = document.createElement('pre');
+		output.textContent = failure.stderr || '(no compiler output)';
+
+		details.append(summary, output);
+		failedList.appendChild(details);
+	}
+}
+
+// Rebuilds the treemap and follows the same drill-down path by name, when the grouping or the metric changes
+function buildTreemapStack(): void {
+	const root = buildTreemap(data.files, treemapGroupSelect.value as TreemapGrouping, treemapMetricSelect.value as TreemapMetric);
+	const stack = [root];
+
+	for (const previous of treemapStack.slice(1)) {
+		const next = stack[stack.length - 1].children.find(child => child.name === previous.name && child.children.length > 0);
+		if (!next) { break; }
+		stack.push(next);
+	}
+
+	treemapStack = stack;
+}
+
+function updateTreemapBreadcrumb(): void {
+	treemapUp.disabled = treemapStack.length <= 1;
+	treemapBreadcrumb.textContent = treemapStack.map(node => node.name).join(' / ');
+}
+
+function drawTreemap(): void {
+	ctx.clearRect(0, 0, canvas.width, canvas.height);
+	updateTreemapBreadcrumb();
+
+	const current = treemapStack[treemapStack.length - 1];
+	if (!current) { return; }
+
+	treemapRects = layoutTreemap(current.children, 4, 4, canvas.width - 8, canvas.height - 8);
+
+	treemapRects.forEach((rect, i) => {
+		const hue = (i * 47) % 360;
+
+		ctx.fillStyle = `hsl(${hue}, 30%, 30%)`;
+		ctx.fillRect(rect.x, rect.y, rect.width, rect.height);
+
+		// One level of children inside, under the title of the area
+		const headerHeight = rect.height > 40 ? 18 : 0;
+		if (headerHeight && rect.node.children.length > 0) {
+			for (const inner of layoutTreemap(rect.node.children, rect.x + 2, rect.y + headerHeight, rect.width - 4, rect.height - headerHeight - 2)) {
+				ctx.fillStyle = `hsl(${hue}, 30%, 38%)`;
+				ctx.fillRect(inner.x, inner.y, inner.width, inner.height);
+				ctx.strokeStyle = `hsl(${hue}, 30%, 24%)`;
+				ctx.strokeRect(inner.x, inner.y, inner.width, inner.height);
+			}
+		}
+
+		ctx.strokeStyle = '#1e1e1e';
+		ctx.lineWidth = 2;
+		ctx.strokeRect(rect.x, rect.y, rect.width, rect.height);
+		ctx.lineWidth = 1;
+
+		if (rect.width > 40 && rect.height > 14) {
+			ctx.save();
+			ctx.beginPath();
+			ctx.rect(rect.x, rect.y, rect.width - 4, rect.height);
+			ctx.clip();
+			ctx.fillStyle = '#e0e0e0';
+			ctx.font = '11px sans-serif';
+			ctx.fillText(`${rect.node.name}  ${(rect.node.value / 1000000).toFixed(1)} s`, rect.x + 5, rect.y + 13);
+			ctx.restore();
+		}
+	});
+}
+
+function findTreemapRect(x: number, y: number): TreemapRect | undefined {
+	return treemapRects.find(r => x >= r.x && x < r.x + r.width && y >= r.y && y < r.y + r.height);
+}
+
 function drawList(): void {
+	if (currentView === 'Treemap') {
+		drawTreemap();
+		return;
+	}
+
 	if (!currentList.length) { return; }
 
-	const maxTime = Math.max(...currentList.map(f => f.totalTime || f.maxTime || 0));
-	const maxCanvasWidth = canvas.width - 40;
+	const maxTime = Math.max(...currentList.map(getItemTime));
 	const scrollTop = container.scrollTop;
 
 	ctx.clearRect(0, 0, canvas.width, canvas.height);
@@ -163,17 +502,16 @@ function drawList(): void {
 		if (screenTop > canvas.height) { break; }
 
 		const item = currentList[i];
-		const itemTime = item.totalTime || item.maxTime;
+		const itemTime = getItemTime(item);
 
-		const displayPath: string = item.sourcePath ?? item.path;
-		const fileName = displayPath.split(/[\\/]/).pop() || displayPath;
+		const subItems = getSubItems(item);
 
-		const boxWidth = Math.max((itemTime / maxTime) * (maxCanvasWidth - 100), 150);
-		const isExpandable = currentView !== 'Files' && item.includedBy?.length > 0;
+		const boxWidth = getBoxWidth(itemTime, maxTime);
+		const isExpandable = currentView !== 'Files' && subItems.length > 0;
 		const isExpanded = expandedItems.has(i);
 
-		const expandedListHeight = isExpanded && item.includedBy?.length
-			? item.includedBy.length * subItemHeight + 8
+		const expandedListHeight = isExpanded && subItems.length
+			? subItems.length * subItemHeight + 8
 			: 0;
 		const totalBoxHeight = boxHeight + expandedListHeight;
 
@@ -183,42 +521,67 @@ function drawList(): void {
 
 		ctx.fillStyle = '#e0e0e0';
 		ctx.font = '13px sans-serif';
-		ctx.fillText(fileName, 20, screenTop + 18);
+		ctx.save();
+		ctx.beginPath();
+		ctx.rect(10, screenTop, boxWidth - 4, boxHeight);
+		ctx.clip();
+		ctx.fillText(getItemLabel(item), 20, screenTop + 18);
+		ctx.restore();
 
 		if (currentView === 'Files') {
 			const barY = screenTop + 24;
 			const barH = 12;
-			const pct = item.sourceTime / item.totalTime;
-			const sourceW = pct * (boxWidth - 20);
+			const barWidth = boxWidth - 20;
 
-			ctx.fillStyle = '#4a9e5c';
-			roundRect(ctx, 20, barY, Math.max(sourceW, 4), barH, 3, true, false);
+			let left = 20;
+			for (const [phase, color] of Object.entries(PHASE_COLORS)) {
+				const width = getPhaseShare(item, phase) * barWidth;
+				if (width <= 0) { continue; }
 
-			ctx.font = '9px sans-serif';
-			ctx.fillStyle = '#dddddd';
-			ctx.fillText(`${Math.round(pct * 100)}% includes`, 24, barY + 9);
+				ctx.fillStyle = color;
+				ctx.fillRect(left, barY, width, barH);
+				left += width;
+			}
+
+			if (fileSortKey !== 'total') {
+				const pct = item.totalTime > 0 ? getSortTime(item) / item.totalTime : 0;
+				ctx.font = '9px sans-serif';
+				ctx.fillStyle = '#dddddd';
+				ctx.fillText(`${Math.round(pct * 100)}% ${fileSortKey.split(/:(.*)/)[1]}`, 24, barY + 9);
+			}
 		} else {
 			ctx.fillStyle = '#888888';
 			ctx.font = '10px sans-serif';
 			const arrow = isExpandable ? (isExpanded ? '▼ ' : '▶ ') : '';
-			ctx.fillText(`${arrow}${item.count} inclusion${item.count > 1 ? 's' : ''}`, 20, screenTop + 34);
+			const inFiles = `in ${item.unitCount} file${item.unitCount > 1 ? 's' : ''}`;
+			let countText = `${item.count} inclusion${item.count > 1 ? 's' : ''}`;
+			if (currentView === 'RebuildCost') {
+				countText = `rebuilds ${item.unitCount} file${item.unitCount > 1 ? 's' : ''}`;
+			} else if (currentView === 'Templates') {
+				countText = `${item.count} instantiation${item.count > 1 ? 's' : ''} ${inFiles}`;
+			} else if (currentView === 'Backend') {
+				countText = `${item.kind} · ${item.count} time${item.count > 1 ? 's' : ''} ${inFiles}`;
+			}
+			ctx.fillText(`${arrow}${countText}`, 20, screenTop + 34);
 		}
 
 		ctx.fillStyle = '#888888';
 		ctx.font = '10px sans-serif';
-		const timeStr = `${(itemTime / 1000).toFixed(1)} ms`;
+		let timeStr = `${(itemTime / 1000).toFixed(1)} ms`;
+		if (currentView === 'Files' && fileSortKey !== 'total') {
+			timeStr += ` (${(getSortTime(item) / 1000).toFixed(1)} ms)`;
+		}
 		ctx.fillText(timeStr, 10 + boxWidth + 10, screenTop + 25);
 
-		if (isExpanded && item.includedBy?.length) {
+		if (isExpanded && subItems.length) {
 			const listTop = screenTop + boxHeight;
 			ctx.font = '11px sans-serif';
-			item.includedBy.forEach((srcPath: string, j: number) => {
-				const srcName = srcPath.split(/[\\/]/).pop() || srcPath;
+			subItems.forEach((subItem, j) => {
 				const rowY = listTop + j * subItemHeight;
 				ctx.fillStyle = j % 2 === 0 ? '#333333' : '#2d2d2d';
 				ctx.fillRect(11, rowY, boxWidth - 2, subItemHeight);
 				ctx.fillStyle = '#cccccc';
-				ctx.fillText(srcName, 24, rowY + 14);
+				ctx.fillText(subItem.label, 24, rowY + 14);
 			});
 		}
 
@@ -235,6 +598,18 @@ function drawList(): void {
 }
 
 canvas.addEventListener('mousemove', (e) => {
+	if (currentView === 'Treemap') {
+		const bounds = canvas.getBoundingClientRect();
+		const hit = findTreemapRect(e.clientX - bounds.left, e.clientY - bounds.top);
+		const current = treemapStack[treemapStack.length - 1];
+
+		canvas.title = hit && current
+			? `${hit.node.path || hit.node.name}\n${(hit.node.value / 1000).toFixed(1)} ms (${Math.round(hit.node.value / current.value * 100)}% of ${current.name})`
+			: '';
+		canvas.style.cursor = hit ? 'pointer' : 'default';
+		return;
+	}
+
 	const rect = canvas.getBoundingClientRect();
 	const mouseX = e.clientX - rect.left;
 	const realY = e.clientY - rect.top + container.scrollTop;
@@ -242,20 +617,26 @@ canvas.addEventListener('mousemove', (e) => {
 
 	if (index >= 0) {
 		const item = currentList[index];
-		const itemTime = item.totalTime || item.maxTime;
-		const maxTime = Math.max(...currentList.map((f: any) => f.totalTime || f.maxTime || 0));
-		const boxWidth = Math.max((itemTime / maxTime) * (canvas.width - 40 - 100), 150);
+		const itemTime = getItemTime(item);
+		const maxTime = Math.max(...currentList.map(getItemTime));
+		const boxWidth = getBoxWidth(itemTime, maxTime);
 
 		if (mouseX >= 10 && mouseX <= 10 + boxWidth) {
 			const itemTop = itemYPositions[index];
 			const subOffset = realY - itemTop - itemFullHeight;
-			if (expandedItems.has(index) && subOffset >= 0 && item.includedBy?.length) {
+			const subItems = getSubItems(item);
+			if (expandedItems.has(index) && subOffset >= 0 && subItems.length) {
 				const subIndex = Math.floor(subOffset / subItemHeight);
-				if (subIndex < item.includedBy.length) {
-					canvas.title = item.includedBy[subIndex];
+				if (subIndex < subItems.length) {
+					canvas.title = subItems[subIndex].path;
 				}
+			} else if (currentView === 'Files' && realY - itemTop >= 24 && realY - itemTop <= 36) {
+				const phase = getPhaseAt(item, mouseX, boxWidth - 20);
+				canvas.title = phase
+					? `${phase}: ${((item.phases[phase] ?? 0) / 1000).toFixed(1)} ms`
+					: getItemTitle(item);
 			} else {
-				canvas.title = item.sourcePath ?? item.path;
+				canvas.title = getItemTitle(item);
 			}
 			canvas.style.cursor = 'pointer';
 			return;
@@ -267,6 +648,16 @@ canvas.addEventListener('mousemove', (e) => {
 });
 
 canvas.addEventListener('click', (e) => {
+	if (currentView === 'Treemap') {
+		const bounds = canvas.getBoundingClientRect();
+		const hit = findTreemapRect(e.clientX - bounds.left, e.clientY - bounds.top);
+		if (hit && hit.node.children.length > 0) {
+			treemapStack.push(hit.node);
+			requestAnimationFrame(drawTreemap);
+		}
+		return;
+	}
+
 	const rect = canvas.getBoundingClientRect();
 	const mouseX = e.clientX - rect.left;
 	const realY = e.clientY - rect.top + container.scrollTop;
@@ -279,9 +670,9 @@ canvas.addEventListener('click', (e) => {
 	}
 
 	const item = currentList[index];
-	const itemTime = item.totalTime || item.maxTime;
-	const maxTime = Math.max(...currentList.map((f: any) => f.totalTime || f.maxTime || 0));
-	const boxWidth = Math.max((itemTime / maxTime) * (canvas.width - 40 - 100), 150);
+	const itemTime = getItemTime(item);
+	const maxTime = Math.max(...currentList.map(getItemTime));
+	const boxWidth = getBoxWidth(itemTime, maxTime);
 
 	if (mouseX < 10 || mouseX > 10 + boxWidth) {
 		selectedIndex = null;
@@ -292,7 +683,7 @@ canvas.addEventListener('click', (e) => {
 	selectedIndex = index;
 
 	// Expand/collapse: only on the arrow glyph bounding box (drawn at x=20, y=itemTop+34, ~14px wide, 10px tall)
-	if (currentView !== 'Files' && item.includedBy?.length) {
+	if (currentView !== 'Files' && getSubItems(item).length) {
 		const relY = realY - itemYPositions[index];
 		if (relY >= 24 && relY <= 38 && mouseX >= 18 && mouseX <= 34) {
 			if (expandedItems.has(index)) {
@@ -307,8 +698,75 @@ canvas.addEventListener('click', (e) => {
 	requestAnimationFrame(drawList);
 });
 
+function renderIncludeChains(headerPath: string, chains: IncludeChain[]): void {
+	canvas.style.display = 'none';
+	container.style.display = 'none';
+	chainPanel.style.display = 'block';
+	chainPanel.replaceChildren();
+
+	const header = document.createElement('div');
+	header.className = 'chain-header';
+
+	const back = document.createElement('button');
+	back.textContent = '← Back';
+	back.addEventListener('click', () => {
+		chainPanel.style.display = 'none';
+		container.style.display = 'block';
+		canvas.style.display = 'block';
+		canvas.width = container.clientWidth;
+		canvas.height = container.clientHeight;
+		requestAnimationFrame(drawList);
+	});
+
+	const title = document.createElement('span');
+	title.textContent = chains.length
+		? `${getFileName(headerPath)} is included through ${chains.length} chain${chains.length > 1 ? 's' : ''}`
+		: `No include chain found for ${getFileName(headerPath)}`;
+	title.title = headerPath;
+
+	header.append(back, title);
+	chainPanel.appendChild(header);
+
+	chains.forEach((chain, i) => {
+		const details = document.createElement('details');
+		details.open = i < 10;
+
+		const summary = document.createElement('summary');
+		summary.textContent = `${getFileName(chain.sourcePath)} — ${(chain.steps[chain.steps.length - 1].time / 1000).toFixed(1)} ms`;
+		summary.title = chain.sourcePath;
+		summary.addEventListener('dblclick', () => {
+			vscode?.postMessage({ command: 'openFile', path: chain.sourcePath });
+		});
+		details.appendChild(summary);
+
+		// One level of indentation per #include, with the time spent in that header and everything it includes
+		chain.steps.forEach((step, depth) => {
+			const row = document.createElement('div');
+			row.className = 'chain-step';
+			row.style.paddingLeft = `${16 + depth * 16}px`;
+			row.textContent = `└ ${getFileName(step.path)}  ${(step.time / 1000).toFixed(1)} ms`;
+			row.title = step.path;
+			row.addEventListener('dblclick', () => {
+				vscode?.postMessage({ command: 'openFile', path: step.path });
+			});
+			details.appendChild(row);
+		});
+
+		chainPanel.appendChild(details);
+	});
+}
+
 canvas.addEventListener('dblclick', (e) => {
-	if (currentView !== 'Files') { return; }
+	if (currentView === 'Treemap') {
+		const bounds = canvas.getBoundingClientRect();
+		const hit = findTreemapRect(e.clientX - bounds.left, e.clientY - bounds.top);
+		if (hit?.node.file) {
+			vscode?.postMessage({ command: 'openTrace', path: hit.node.file.tracePath });
+		}
+		return;
+	}
+
+	if (currentView !== 'Files' && !isHeaderView()) { return; }
 
 	const rect = canvas.getBoundingClientRect();
 	const mouseX = e.clientX - rect.left;
@@ -318,21 +776,25 @@ canvas.addEventListener('dblclick', (e) => {
 	if (index < 0) { return; }
 
 	const item = currentList[index];
-	const itemTime = item.totalTime || item.maxTime;
-	const maxTime = Math.max(...currentList.map((f: any) => f.totalTime || f.maxTime || 0));
-	const boxWidth = Math.max((itemTime / maxTime) * (canvas.width - 40 - 100), 150);
+	const itemTime = getItemTime(item);
+	const maxTime = Math.max(...currentList.map(getItemTime));
+	const boxWidth = getBoxWidth(itemTime, maxTime);
 
 	if (mouseX >= 10 && mouseX <= 10 + boxWidth && vscode) {
 		selectedIndex = index;
 		requestAnimationFrame(drawList);
-		vscode.postMessage({ command: 'openTrace', path: item.tracePath });
+		if (currentView === 'Files') {
+			vscode.postMessage({ command: 'openTrace', path: item.tracePath });
+		} else {
+			vscode.postMessage({ command: 'showIncludeChains', path: item.path });
+		}
 	}
 });
 
 canvas.addEventListener('contextmenu', (e) => {
 	e.preventDefault();
 
-	if (currentView !== 'Files') {
+	if (currentView !== 'Files' && !isHeaderView()) {
 		contextMenu.style.display = 'none';
 		return;
 	}
@@ -344,14 +806,16 @@ canvas.addEventListener('contextmenu', (e) => {
 
 	if (index >= 0) {
 		const item = currentList[index];
-		const itemTime = item.totalTime || item.maxTime;
-		const maxTime = Math.max(...currentList.map((f: any) => f.totalTime || f.maxTime || 0));
-		const boxWidth = Math.max((itemTime / maxTime) * (canvas.width - 40 - 100), 150);
+		const itemTime = getItemTime(item);
+		const maxTime = Math.max(...currentList.map(getItemTime));
+		const boxWidth = getBoxWidth(itemTime, maxTime);
 
 		if (mouseX >= 10 && mouseX <= 10 + boxWidth) {
-			rightClickedPath = item.sourcePath;
-			rightClickedTracePath = item.tracePath;
+			rightClickedPath = item.sourcePath ?? item.path;
+			rightClickedTracePath = item.tracePath ?? null;
 			selectedIndex = index;
+			menuOpenTrace.style.display = currentView === 'Files' ? '' : 'none';
+			menuIncludeChains.style.display = isHeaderView() ? '' : 'none';
 			requestAnimationFrame(drawList);
 			contextMenu.style.display = 'block';
 			contextMenu.style.left = `${e.clientX}px`;
@@ -373,7 +837,7 @@ document.getElementById('menu-open-file')?.addEventListener('click', () => {
 	}
 });
 
-document.getElementById('menu-open-trace')?.addEventListener('click', () => {
+menuOpenTrace.addEventListener('click', () => {
 	if (rightClickedTracePath && vscode) {
 		vscode.postMessage({ command: 'openTrace', path: rightClickedTracePath });
 	}
@@ -385,8 +849,39 @@ document.getElementById('menu-copy-path')?.addEventListener('click', () => {
 	}
 });
 
+menuIncludeChains.addEventListener('click', () => {
+	if (rightClickedPath && vscode) {
+		vscode.postMessage({ command: 'showIncludeChains', path: rightClickedPath });
+	}
+});
+
+saveAnalysisButton.addEventListener('click', () => {
+	vscode?.postMessage({ command: 'saveAnalysis' });
+});
+
 // --- HELPERS ---
 
+function saveState(): void {
+	if (panelState.analysisPath) {
+		vscode?.setState({ ...panelState, view: currentView });
+	}
+}
+
+// "abc1234 · clang version 17.0.6 · 19/10/2026 14:02", details in the tooltip
+function renderAnalysisInfo(metadata: AnalysisMetadata): void {
+	const parts = [
+		metadata.gitCommit?.substring(0, 7),
+		metadata.compilerVersion,
+		metadata.createdAt && new Date(metadata.createdAt).toLocaleString()
+	];
+	analysisInfo.textContent = parts.filter(Boolean).join(' · ');
+	analysisInfo.title = [
+		metadata.folderPath && `Folder: ${metadata.folderPath}`,
+		metadata.databasePath && `Compilation database: ${metadata.databasePath}`,
+		metadata.gitCommit && `Commit: ${metadata.gitCommit}`
+	].filter(Boolean).join('\n');
+}
+
 
 
 function roundRect(ctx: CanvasRenderingContext2D, x: number, y: number, width: number, height: number, radius: number, fill: boolean, stroke: boolean) {
@@ -405,7 +900,19 @@ window.addEventListener('message', event => {
 	switch (message.command) {
 		case 'initData':
 			data = message.payload;
+			panelState = message.state ?? {};
+			renderAnalysisInfo(message.metadata ?? {});
+			initFilesControls();
+			buildTreemapStack();
 			render();
+
+			if (panelState.view) {
+				document.querySelector<HTMLButtonElement>(`.tab-btn[data-target="${panelState.view}"]`)?.click();
+			}
+			saveState();
+			break;
+		case 'includeChains':
+			renderIncludeChains(message.path, message.chains);
 			break;
 	}
 });
@@ -0,0 +1,200 @@
+interface HistoryPoint {
+	commit?: string;
+	date: string;
+	time: number;
+}
+
+const CHART = {
+	MARGIN_LEFT: 70,
+	MARGIN_RIGHT: 24,
+	MARGIN_TOP: 20,
+	MARGIN_BOTTOM: 40,
+	LINE_COLOR: '#4fc1ff',
+	GRID_COLOR: 'rgba(255, 255, 255, 0.08)',
+	TEXT_COLOR: '#cccccc',
+	FONT: '11px sans-serif',
+	POINT_RADIUS: 3,
+	HIT_RADIUS: 8
+};
+
+let points: HistoryPoint[] = [];
+let hoveredIndex: number | null = null;
+
+const summary = document.getElementById('summary') as HTMLElement;
+const container = document.getElementById('chartContainer') as HTMLElement;
+const canvas = document.getElementById('chart') as HTMLCanvasElement;
+const ctx = canvas.getContext('2d')!;
+const tooltip = document.getElementById('tooltip') as HTMLDivElement;
+const overlay = document.getElementById('loadingOverlay') as HTMLElement;
+
+function formatTime(us: number): string {
+	return us >= 1000000 ? `${(us / 1000000).toFixed(2)} s` : `${(us / 1000).toFixed(1)} ms`;
+}
+
+function formatDate(iso: string): string {
+	return new Date(iso).toLocaleDateString();
+}
+
+function renderSummary(filePath: string, kind: string, folderPath?: string): void {
+	summary.replaceChildren();
+
+	const name = document.createElement('strong');
+	name.textContent = filePath.split(/[\\/]/).pop() || filePath;
+
+	const fullPath = document.createElement('span');
+	fullPath.className = 'path';
+	fullPath.textContent = filePath;
+
+	const trend = document.createElement('span');
+	const first = points[0];
+	const last = points[points.length - 1];
+	const folderName = folderPath?.split(/[\\/]/).pop() || folderPath;
+	const metric = kind === 'header' ? `Cumulative parse time in ${folderName}` : 'Compile time';
+	trend.textContent = `${metric}: ${formatTime(first.time)} → ${formatTime(last.time)} over ${points.length} analyses`;
+
+	const delta = document.createElement('strong');
+	const diff = last.time - first.time;
+	delta.className = diff > 0 ? 'slower' : 'faster';
+	delta.textContent = first.time > 0 ? `${diff > 0 ? '+' : '−'}${Math.abs(diff / first.time * 100).toFixed(1)}%` : '';
+
+	summary.append(name, trend, delta, fullPath);
+}
+
+// One point per analysis, evenly spaced: the dates of the analyses are irregular
+function getPointPosition(index: number, maxTime: number): { x: number, y: number } {
+	const width = canvas.width - CHART.MARGIN_LEFT - CHART.MARGIN_RIGHT;
+	const height = canvas.height - CHART.MARGIN_TOP - CHART.MARGIN_BOTTOM;
+	const step = points.length > 1 ? width / (points.length - 1) : 0;
+
+	return {
+		x: CHART.MARGIN_LEFT + (points.length > 1 ? index * step : width / 2),
+		y: CHART.MARGIN_TOP + height - (maxTime > 0 ? points[index].time / maxTime * height : 0)
+	};
+}
+
+function getMaxTime(): number {
+	// Some headroom over the highest point
+	return Math.max(...points.map(p => p.time)) * 1.1;
+}
+
+function drawChart(): void {
+	canvas.width = container.clientWidth;
+	canvas.height = container.clientHeight;
+	ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+	if (points.length === 0) { return; }
+
+	const maxTime = getMaxTime();
+	const bottom = canvas.height - CHART.MARGIN_BOTTOM;
+
+	ctx.font = CHART.FONT;
+	ctx.fillStyle = CHART.TEXT_COLOR;
+	ctx.strokeStyle = CHART.GRID_COLOR;
+	ctx.lineWidth = 1;
+
+	// Horizontal grid with the time scale
+	const gridLines = 5;
+	ctx.textAlign = 'right';
+	ctx.textBaseline = 'middle';
+	for (let i = 0; i <= gridLines; i++) {
+		const y = CHART.MARGIN_TOP + (bottom - CHART.MARGIN_TOP) * (1 - i / gridLines);
+		ctx.beginPath();
+		ctx.moveTo(CHART.MARGIN_LEFT, y);
+		ctx.lineTo(canvas.width - CHART.MARGIN_RIGHT, y);
+		ctx.stroke();
+		ctx.fillText(formatTime(maxTime * i / gridLines), CHART.MARGIN_LEFT - 8, y);
+	}
+
+	// Date labels, thinned out to avoid overlaps
+	ctx.textAlign = 'center';
+	ctx.textBaseline = 'top';
+	const labelEvery = Math.max(1, Math.ceil(points.length * 90 / Math.max(1, canvas.width - CHART.MARGIN_LEFT - CHART.MARGIN_RIGHT)));
+	points.forEach((p, i) => {
+		if (i % labelEvery !== 0 && i !== points.length - 1) { return; }
+		ctx.fillText(formatDate(p.date), getPointPosition(i, maxTime).x, bottom + 8);
+	});
+
+	ctx.strokeStyle = CHART.LINE_COLOR;
+	ctx.lineWidth = 2;
+	ctx.beginPath();
+	points.forEach((_, i) => {
+		const { x, y } = getPointPosition(i, maxTime);
+		if (i === 0) { ctx.moveTo(x, y); } else { ctx.lineTo(x, y); }
+	});
+	ctx.stroke();
+
+	points.forEach((_, i) => {
+		const { x, y } = getPointPosition(i, maxTime);
+		ctx.fillStyle = i === hoveredIndex ? '#ffffff' : CHART.LINE_COLOR;
+		ctx.beginPath();
+		ctx.arc(x, y, i === hoveredIndex ? CHART.POINT_RADIUS + 2 : CHART.POINT_RADIUS, 0, Math.PI * 2);
+		ctx.fill();
+	});
+}
+
+function getPointAt(mouseX: number, mouseY: number): number | null {
+	const maxTime = getMaxTime();
+
+	for (let i = 0; i < points.length; i++) {
+		const { x, y } = getPointPosition(i, maxTime);
+		if (Math.abs(x - mouseX) <= CHART.HIT_RADIUS && Math.abs(y - mouseY) <= CHART.HIT_RADIUS) {
+			return i;
+		}
+	}
+	return null;
+}
+
+canvas.addEventListener('mousemove', (e: MouseEvent) => {
+	const rect = canvas.getBoundingClientRect();
+	const index = getPointAt(e.clientX - rect.left, e.clientY - rect.top);
+
+	if (index !== hoveredIndex) {
+		hoveredIndex = index;
+		requestAnimationFrame(drawChart);
+	}
+
+	if (index === null) {
+		tooltip.style.display = 'none';
+		return;
+	}
+
+	const point = points[index];
+	const previous = points[index - 1];
+	const lines = [
+		formatTime(point.time),
+		new Date(point.date).toLocaleString(),
+		point.commit ? `Commit ${point.commit.substring(0, 10)}` : 'No git commit'
+	];
+	if (previous) {
+		const diff = point.time - previous.time;
+		lines.push(`${diff > 0 ? '+' : '−'}${formatTime(Math.abs(diff))} since the previous analysis`);
+	}
+
+	tooltip.textContent = lines.join('\n');
+	tooltip.style.display = 'block';
+	tooltip.style.left = `${e.clientX + 12}px`;
+	tooltip.style.top = `${e.clientY + 12}px`;
+});
+
+canvas.addEventListener('mouseleave', () => {
+	hoveredIndex = null;
+	tooltip.style.display = 'none';
+	requestAnimationFrame(drawChart);
+});
+
+window.addEventListener('resize', () => requestAnimationFrame(drawChart));
+
+const vscode = typeof (window as any).acquireVsCodeApi === 'function' ? (window as any).acquireVsCodeApi() : null;
+window.addEventListener('message', event => {
+	const message = event.data;
+
+	switch (message.command) {
+		case 'initData':
+			points = message.points;
+			overlay.style.display = 'none';
+			renderSummary(message.path, message.kind, message.folderPath);
+			drawChart();
+			break;
+	}
+});
+vscode?.postMessage({ command: 'webviewReady' });
@@ -0,0 +1,198 @@
+// Treemap of the folder analysis: compile time rolled up by directory or by build target
+
+export type TreemapGrouping = 'directory' | 'target';
+export type TreemapMetric = 'total' | 'frontend' | 'backend';
+
+export interface TreemapFile {
+	sourcePath: string;
+	tracePath: string;
+	target?: string;
+	totalTime: number;
+	phases?: Record<string, number>;
+}
+
+export interface TreemapNode {
+	name: string;
+	path: string;
+	value: number;
+	children: TreemapNode[];
+	file?: TreemapFile;
+}
+
+export interface TreemapRect {
+	node: TreemapNode;
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+}
+
+// Phases of FileStats.phases, see FILE_PHASES in traceParser.ts
+const FRONTEND_PHASES = ['Parsing', 'Instantiation', 'Frontend (other)'];
+const BACKEND_PHASES = ['Optimization', 'Code generation', 'Backend (other)'];
+
+export function getMetricTime(file: TreemapFile, metric: TreemapMetric): number {
+	if (metric === 'total') { return file.totalTime; }
+
+	const phases = metric === 'frontend' ? FRONTEND_PHASES : BACKEND_PHASES;
+	return phases.reduce((sum, phase) => sum + (file.phases?.[phase] ?? 0), 0);
+}
+
+function buildDirectoryTree(name: string, files: TreemapFile[], metric: TreemapMetric): TreemapNode {
+	const root: TreemapNode = { name, path: '', value: 0, children: [] };
+	const directories = new Map<TreemapNode, Map<string, TreemapNode>>();
+
+	for (const file of files) {
+		const value = getMetricTime(file, metric);
+		if (value <= 0) { continue; }
+
+		const normalized = file.sourcePath.replace(/\\/g, '/');
+		const parts = normalized.split('/').filter(Boolean);
+		let node = root;
+		let nodePath = normalized.startsWith('/') ? '' : undefined;
+
+		for (const part of parts.slice(0, -1)) {
+			nodePath = nodePath === undefined ? part : `${nodePath}/${part}`;
+
+			let children = directories.get(node);
+			if (!children) {
+				children = new Map();
+				directories.set(node, children);
+			}
+
+			let child = children.get(part);
+			if (!child) {
+				child = { name: part, path: nodePath, value: 0, children: [] };
+				children.set(part, child);
+				node.children.push(child);
+			}
+			node = child;
+		}
+
+		node.children.push({ name: parts[parts.length - 1] ?? file.sourcePath, path: file.sourcePath, value, children: [], file });
+	}
+
+	sumValues(root);
+	collapseChains(root);
+
+	// The common prefix of all the files is not worth a level
+	while (root.children.length === 1 && !root.children[0].file) {
+		root.path = root.children[0].path;
+		root.children = root.children[0].children;
+	}
+
+	return root;
+}
+
+function sumValues(node: TreemapNode): number {
+	if (node.children.length > 0) {
+		node.value = node.children.reduce((sum, child) => sum + sumValues(child), 0);
+		node.children.sort((a, b) => b.value - a.value);
+	}
+	return node.value;
+}
+
+// "src" > "engine" > "render" with nothing else in between becomes "src/engine/render"
+function collapseChains(node: TreemapNode): void {
+	for (const child of node.children) {
+		while (child.children.length === 1 && !child.children[0].file) {
+			const only = child.children[0];
+			child.name = `${child.name}/${only.name}`;
+			child.path = only.path;
+			child.children = only.children;
+		}
+		collapseChains(child);
+	}
+}
+
+export function buildTreemap(files: TreemapFile[], grouping: TreemapGrouping, metric: TreemapMetric): TreemapNode {
+	if (grouping === 'directory') {
+		return buildDirectoryTree('All files', files, metric);
+	}
+
+	const byTarget = new Map<string, TreemapFile[]>();
+	for (const file of files) {
+		const target = file.target ?? '(unknown target)';
+		byTarget.set(target, [...(byTarget.get(target) ?? []), file]);
+	}
+
+	const root: TreemapNode = { name: 'All targets', path: '', value: 0, children: [] };
+	for (const [target, targetFiles] of byTarget) {
+		const node = buildDirectoryTree(target, targetFiles, metric);
+		if (node.value > 0) {
+			root.children.push(node);
+		}
+	}
+
+	sumValues(root);
+	return root;
+}
+
+// Squarified layout (Bruls, Huizing, van Wijk): rows of nodes whose rectangles stay close to squares
+export function layoutTreemap(nodes: TreemapNode[], x: number, y: number, width: number, height: number): TreemapRect[] {
+	const rects: TreemapRect[] = [];
+	const total = nodes.reduce((sum, node) => sum + Math.max(node.value, 0), 0);
+	if (total <= 0 || width <= 0 || height <= 0) { return rects; }
+
+	const scale = (width * height) / total;
+	const items = nodes
+		.filter(node => node.value > 0)
+		.sort((a, b) => b.value - a.value)
+		.map(node => ({ node, area: node.value * scale }));
+
+	let left = x;
+	let top = y;
+	let remainingWidth = width;
+	let remainingHeight = height;
+
+	const worstRatio = (row: { area: number }[], side: number) => {
+		const sum = row.reduce((s, item) => s + item.area, 0);
+		const max = Math.max(...row.map(item => item.area));
+		const min = Math.min(...row.map(item => item.area));
+		return Math.max((side * side * max) / (sum * sum), (sum * sum) / (side * side * min));
+	};
+
+	const placeRow = (row: { node: TreemapNode, area: number }[]) => {
+		const sum = row.reduce((s, item) => s + item.area, 0);
+
+		if (remainingWidth >= remainingHeight) {
+			// Column on the left
+			const columnWidth = sum / remainingHeight;
+			let itemTop = top;
+			for (const item of row) {
+				const itemHeight = item.area / columnWidth;
+				rects.push({ node: item.node, x: left, y: itemTop, width: columnWidth, height: itemHeight });
+				itemTop += itemHeight;
+			}
+			left += columnWidth;
+			remainingWidth -= columnWidth;
+		} else {
+			// Row at the top
+			const rowHeight = sum / remainingWidth;
+			let itemLeft = left;
+			for (const item of row) {
+				const itemWidth = item.area / rowHeight;
+				rects.push({ node: item.node, x: itemLeft, y: top, width: itemWidth, height: rowHeight });
+				itemLeft += itemWidth;
+			}
+			top += rowHeight;
+			remainingHeight -= rowHeight;
+		}
+	};
+
+	let row: { node: TreemapNode, area: number }[] = [];
+	for (const item of items) {
+		const side = Math.min(remainingWidth, remainingHeight);
+		if (row.length === 0 || worstRatio([...row, item], side) <= worstRatio(row, side)) {
+			row.push(item);
+		} else {
+			placeRow(row);
+			row = [item];
+		}
+	}
+	if (row.length > 0) {
+		placeRow(row);
+	}
+
+	return rects;
+}